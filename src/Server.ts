@@ -6,6 +6,20 @@ import {
     uncaughtExceptionHandler,
 } from './error handling/errorHandlers'
 import { populateLocations } from './controllers/location'
+import {
+    releaseExpiredReservations,
+    remindAbandonedCarts,
+} from './controllers/cart'
+import { runDealLifecycle } from './controllers/deal'
+import { notifyReturnStatusChange } from './controllers/return'
+import {
+    notifyDealStarted,
+    notifyProductPriceDropped,
+    notifyProductRestocked,
+} from './controllers/productAlert'
+import { scheduleJob } from './packages/scheduler'
+import { appEvents } from './packages/events'
+import { notifyOrderStatusChange } from './packages/orderStatus'
 
 /**
  ** ====================================
@@ -24,6 +38,7 @@ export interface IServer {
     readonly port: number
     readonly nodeEnv: NodeEnv
     readonly server: HttpServer | null
+    readonly jobs: Array<NodeJS.Timer>
 }
 
 /**
@@ -41,6 +56,7 @@ export default class Server implements IServer {
     readonly port: number //port where application will run
     readonly nodeEnv: NodeEnv //node environment
     server: HttpServer | null //http server
+    jobs: Array<NodeJS.Timer> //scheduled background jobs
 
     /**
      ** **
@@ -52,10 +68,14 @@ export default class Server implements IServer {
         this.port = port ? port : ((process.env.PORT_NO || 3000) as number)
         this.nodeEnv = process.env.NODE_ENVIRONMENT as NodeEnv
         this.server = null
+        this.jobs = []
 
         //Register Error Handler
         this.registerErrorHandlers()
 
+        //Register App Event Listeners
+        this.registerEventListeners()
+
         // NODE ENV
         console.log(`Node Environment Is In Mode:\t\t[${this.nodeEnv}]`)
     }
@@ -77,6 +97,9 @@ export default class Server implements IServer {
 
             //populate locations
             populateLocations()
+
+            //schedule background jobs
+            this.scheduleJobs()
         } catch (error) {
             console.log(
                 `MongoDB Connection Was:\t\t\t[UnSuccessfull]\n${error}`
@@ -84,6 +107,64 @@ export default class Server implements IServer {
         }
     }
 
+    /**
+     ** **
+     ** ** ** SCHEDULE BACKGROUND JOBS
+     ** **
+     */
+    private scheduleJobs() {
+        //Release stock of expired cart reservations
+        this.jobs.push(
+            scheduleJob(
+                'release-expired-reservations',
+                ((process.env.CART_RESERVATION_SWEEP_INTERVAL || 1) as number) *
+                    60 *
+                    1000,
+                releaseExpiredReservations
+            )
+        )
+
+        //Start and end deals, emitting deal-started and deal-ended events
+        this.jobs.push(
+            scheduleJob(
+                'run-deal-lifecycle',
+                ((process.env.DEAL_SCHEDULER_INTERVAL || 1) as number) *
+                    60 *
+                    1000,
+                runDealLifecycle
+            )
+        )
+
+        //Remind users of carts they left untouched, once per change of cart
+        this.jobs.push(
+            scheduleJob(
+                'remind-abandoned-carts',
+                ((process.env.ABANDONED_CART_SWEEP_INTERVAL || 60) as number) *
+                    60 *
+                    1000,
+                remindAbandonedCarts
+            )
+        )
+    }
+
+    /**
+     ** **
+     ** ** ** LISTEN TO APP EVENTS
+     ** **
+     */
+    private registerEventListeners() {
+        //Email customers when status of their orders changes
+        appEvents.on('order-status-changed', notifyOrderStatusChange)
+
+        //Email customers on each step of their returns
+        appEvents.on('return-status-changed', notifyReturnStatusChange)
+
+        //Email subscribers once a product is back in stock, or its price drops, a deal started drops it too
+        appEvents.on('product-restocked', notifyProductRestocked)
+        appEvents.on('product-price-dropped', notifyProductPriceDropped)
+        appEvents.on('deal-started', notifyDealStarted)
+    }
+
     /**
      ** **
      ** ** ** HANDLE NODE PROCESS ERROR EVENTS
@@ -122,6 +203,7 @@ export default class Server implements IServer {
      ** **
      */
     close() {
+        this.jobs.forEach((job) => clearInterval(job))
         this.server?.close(() => {
             process.exit(1)
         })
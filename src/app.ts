@@ -22,6 +22,13 @@ import RouterOrder from './routes/order'
 import RouterCheckout from './routes/checkout'
 import RouterLocation from './routes/location'
 import RouterMail from './routes/mail'
+import RouterCoupon from './routes/coupon'
+import RouterShippingZone from './routes/shippingZone'
+import RouterTaxRule from './routes/taxRule'
+import RouterCurrency from './routes/currency'
+import RouterReturn from './routes/return'
+import RouterCarrier from './routes/carrier'
+import RouterProductAlert from './routes/productAlert'
 
 //Controllers
 import { checkoutSuccessStripeWebhook } from './controllers/checkout'
@@ -116,6 +123,13 @@ app.use(`${API_ENDPOINT}/order`, RouterOrder)
 app.use(`${API_ENDPOINT}/checkout`, RouterCheckout)
 app.use(`${API_ENDPOINT}/location`, RouterLocation)
 app.use(`${API_ENDPOINT}/mail`, RouterMail)
+app.use(`${API_ENDPOINT}/coupon`, RouterCoupon)
+app.use(`${API_ENDPOINT}/shipping-zone`, RouterShippingZone)
+app.use(`${API_ENDPOINT}/tax-rule`, RouterTaxRule)
+app.use(`${API_ENDPOINT}/currency`, RouterCurrency)
+app.use(`${API_ENDPOINT}/return`, RouterReturn)
+app.use(`${API_ENDPOINT}/carrier`, RouterCarrier)
+app.use(`${API_ENDPOINT}/product-alert`, RouterProductAlert)
 
 /**
  ** ====================================
@@ -14,6 +14,9 @@ import { catchAsyncHandler } from '../error handling/errorHandlers'
 import { JWT_CreateAndSendToken, JWT_VerifyToken } from '../packages/jwt'
 import { mail } from '../packages/mailer'
 
+//Controllers
+import { mergeGuestCart } from './cart'
+
 /**
  ** ====================================
  ** SIGNUP
@@ -115,7 +118,10 @@ export const signup = catchAsyncHandler(async (req, res) => {
         })
     })
 
-    //8) Sign a token and send it in a response as cookie
+    //8) Merge cart of guest into cart of user
+    await mergeGuestCart(req, res, user._id)
+
+    //9) Sign a token and send it in a response as cookie
     JWT_CreateAndSendToken(user._id, res, 201)
 })
 
@@ -149,7 +155,10 @@ export const login = catchAsyncHandler(async (req, res) => {
     //4) Hide password
     user.password = undefined
 
-    //5) Sign a token and send it in a response as cookie
+    //5) Merge cart of guest into cart of user
+    await mergeGuestCart(req, res, user._id)
+
+    //6) Sign a token and send it in a response as cookie
     JWT_CreateAndSendToken(user._id, res, 200)
 })
 
@@ -312,11 +321,7 @@ export const resetPassword = catchAsyncHandler(async (req, res) => {
 export const isAuthenticated = catchAsyncHandler(
     async (req: Request, res: Response, next) => {
         // 1) Get token from a request or from session cookie
-        const JWT =
-            req.headers.authorization &&
-            req.headers.authorization.startsWith('Bearer')
-                ? req.headers.authorization.replace('Bearer', '').trim()
-                : req.cookies.jwt
+        const JWT = getRequestToken(req)
 
         if (!JWT)
             throw new AppError(
@@ -324,35 +329,78 @@ export const isAuthenticated = catchAsyncHandler(
                 401
             )
 
-        // 2) Verify Token - Error will be thrown if failed
-        const decodedToken = await JWT_VerifyToken(JWT)
-        if (!decodedToken || !decodedToken.iat)
-            throw new AppError(
-                'User authentication failed for some reasons, please try to login again.',
-                402
-            )
-
-        // 3) Check if user still exist to who the token was issued
-        const user = await User.findById(decodedToken.payload)
-        if (!user)
-            throw new AppError(
-                'User no longer exist, please login again as a different user.',
-                404
-            )
+        // 2) Save user of token to req object, so next middleware have access to it
+        req.user = await getUserOfToken(JWT)
 
-        // 4) Save user to req object, so next middleware have access to it
-        req.user = user
+        // 3) Authentication successfull - User can proceed now with request
+        next()
+    }
+)
 
-        // 5) Check if user's pass hasn't changed since the token was issued
-        const isPassChanged = user.isPassChangedSince(decodedToken.iat * 1000)
-        if (isPassChanged)
-            throw new AppError('Session has expired. Please login again.', 401)
+/**
+ ** ====================================
+ ** OPTIONAL AUTHENTICATION
+ ** ====================================
+ */
+export const identifyUser = catchAsyncHandler(
+    async (req: Request, res: Response, next) => {
+        // 1) Get token from a request or from session cookie, if none, proceed as guest
+        const JWT = getRequestToken(req)
+        if (!JWT) return next()
+
+        // 2) Save user of token to req object, if token isn't valid, proceed as guest
+        try {
+            req.user = await getUserOfToken(JWT)
+        } catch (err) {
+            // Guest
+        }
 
-        // 6) Authentication successfull - User can proceed now with request
+        // 3) Proceed with request
         next()
     }
 )
 
+/**
+ ** ====================================
+ ** GET TOKEN OF REQUEST
+ ** ====================================
+ */
+const getRequestToken = (req: Request): string | undefined =>
+    req.headers.authorization && req.headers.authorization.startsWith('Bearer')
+        ? req.headers.authorization.replace('Bearer', '').trim()
+        : req.cookies.jwt
+
+/**
+ ** ====================================
+ ** GET USER OF TOKEN
+ ** ====================================
+ */
+const getUserOfToken = async (JWT: string) => {
+    // 1) Verify Token - Error will be thrown if failed
+    const decodedToken = await JWT_VerifyToken(JWT)
+    if (!decodedToken || !decodedToken.iat)
+        throw new AppError(
+            'User authentication failed for some reasons, please try to login again.',
+            402
+        )
+
+    // 2) Check if user still exist to who the token was issued
+    const user = await User.findById(decodedToken.payload)
+    if (!user)
+        throw new AppError(
+            'User no longer exist, please login again as a different user.',
+            404
+        )
+
+    // 3) Check if user's pass hasn't changed since the token was issued
+    const isPassChanged = user.isPassChangedSince(decodedToken.iat * 1000)
+    if (isPassChanged)
+        throw new AppError('Session has expired. Please login again.', 401)
+
+    // 4) Return user
+    return user
+}
+
 /**
  ** ====================================
  ** AUTHORIZATION
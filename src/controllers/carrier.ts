@@ -0,0 +1,169 @@
+import { Request, Response } from 'express'
+
+//Models & Types
+import Carrier, { ICarrier } from '../models/Carrier'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+
+/**
+ ** ====================================
+ ** createCarrier = Create a single carrier
+ ** ====================================
+ */
+export const createCarrier = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get fields from req body
+        const carrierToBeCreated: ICarrier = {
+            code: req.body.code,
+            name: req.body.name,
+            tracking_url: req.body.tracking_url,
+        }
+
+        //2) Create carrier
+        const DocCarrier = await Carrier.create(carrierToBeCreated)
+
+        //3) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocCarrier,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getCarrier = Get a single carrier
+ ** ====================================
+ */
+export const getCarrier = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a carrier to be retrieved
+        const id = req.params.id
+
+        //2) Get query
+        const query = Carrier.findById(id)
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Exec query to retrieve carrier doc match found
+        const DocCarrier = await QueryModfier.query.exec()
+
+        //5) If no document found, throw err
+        if (!DocCarrier) {
+            throw new AppError(
+                'No carrier document found to be retrieve with the id provided.',
+                404
+            )
+        }
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCarrier,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getManyCarrier = Get one or more carrier
+ ** ====================================
+ */
+export const getManyCarrier = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = Carrier.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve carrier docs match found
+        const DocsCarrier = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsCarrier.length,
+            data: DocsCarrier,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** updateCarrier = Update a single carrier
+ ** ====================================
+ */
+export const updateCarrier = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of carrier to be updated
+        const id = req.params.id
+
+        //2) Get fields from req body
+        const carrierToBeUpdated: Partial<ICarrier> = {
+            code: req.body.code,
+            name: req.body.name,
+            tracking_url: req.body.tracking_url,
+        }
+
+        //3) Update carrier
+        const DocCarrier = await Carrier.findByIdAndUpdate(
+            id,
+            carrierToBeUpdated,
+            { new: true, runValidators: true }
+        )
+
+        //4) If no carrier document found, throw err
+        if (!DocCarrier) {
+            throw new AppError(
+                'No carrier document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //5) Return a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCarrier,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteCarrier = Delete a single carrier
+ ** ====================================
+ */
+export const deleteCarrier = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a carrier to be deleted
+        const id = req.params.id
+
+        //2) Delete carrier
+        const DelResults = await Carrier.deleteOne({ _id: id })
+
+        //3) If no document found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No carrier found to be deleted with the id provided.',
+                404
+            )
+        }
+
+        //4) Send a response
+        res.status(204).json()
+    }
+)
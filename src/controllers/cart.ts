@@ -1,3 +1,5 @@
+import fs from 'fs'
+import validator from 'validator'
 import { NextFunction, Request, Response } from 'express'
 
 //Error Handler
@@ -5,26 +7,70 @@ import AppError from '../error handling/AppError'
 import { catchAsyncHandler } from '../error handling/errorHandlers'
 
 //Models & Types
-import Cart from '../models/Cart'
+import Cart, { ICart } from '../models/Cart'
 import Media from '../models/Media'
 import Product from '../models/Product'
+import Coupon from '../models/Coupon'
+import User from '../models/User'
 import { ObjectId } from 'mongodb'
+import { ClientSession, HydratedDocument } from 'mongoose'
 
 //Utils & Packages
 import { isToPopulate } from '../utils/isToPopulate'
 import QueryModifier from '../packages/QueryModifier'
 import makeUrlComplete from '../utils/makeUrlComplete'
+import { decrementStock, incrementStock } from '../packages/inventory'
+import { withTransaction } from '../packages/transaction'
+import { assertFlashSaleLimit, priceLines } from '../packages/pricing'
+import {
+    isSameVariantSelection,
+    validateSelectedVariants,
+} from '../utils/selectedVariants'
+import { calcCouponDiscount } from '../utils/coupon'
+import { summarizeCart } from '../packages/cartSummary'
+import { mail } from '../packages/mailer'
+import { JWT_CreateGuestToken, JWT_VerifyToken } from '../packages/jwt'
+import {
+    convertOptionalPrice,
+    convertPrice,
+    resolveCurrency,
+} from '../packages/currency'
+
+/*
+ ** **
+ ** ** ** GUEST CART COOKIE - Name of cookie holding token of guest
+ ** **
+ */
+const GUEST_CART_COOKIE = 'guest_cart'
 
 /**
  ** ==========================================================
  ** MIDDLEWARES
  ** ==========================================================
  */
-//Set param id to currently authenticated user id
-export const setParamIdToAuthUserId = catchAsyncHandler(
+//Set owner of cart to currently authenticated user, else to the guest of signed cookie token
+export const setCartOwner = catchAsyncHandler(
     async (req: Request, res: Response, next: NextFunction) => {
-        if (req.user._id) req.query.owner = req.user._id.toString()
+        //1) If user is logged in, cart belongs to user
+        if (req.user?._id) {
+            req.cart_owner = { owner: req.user._id }
+            return next()
+        }
+
+        //2) Get guest of cookie token, if none or invalid, identify as a new guest
+        const guest =
+            (await getGuestOfRequest(req)) || new ObjectId().toString()
 
+        //3) Send a renewed token of guest as cookie
+        res.cookie(GUEST_CART_COOKIE, JWT_CreateGuestToken(guest), {
+            expires: getGuestCartExpiry(),
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production', // ===> Flag true in production
+            httpOnly: true,
+        })
+
+        //4) Cart belongs to guest
+        req.cart_owner = { guest }
         next()
     }
 )
@@ -40,7 +86,9 @@ export const getCart = catchAsyncHandler(
         const id = req.params.id
 
         const condition =
-            req.user.role === 'admin' && id ? { _id: id } : { ...req.query }
+            req.user?.role === 'admin' && id
+                ? { _id: id }
+                : req.cart_owner || { ...req.query }
 
         //2) Get query
         const query = Cart.findOne(condition)
@@ -62,7 +110,7 @@ export const getCart = catchAsyncHandler(
         const DocCart = await QueryModfier.query.exec()
 
         //6) No document found for admin user, throw error, else create new doc
-        if (!DocCart && req.user.role === 'admin' && id) {
+        if (!DocCart && req.user?.role === 'admin' && id) {
             throw new AppError(
                 'No cart document found to retrieve with the id provided.',
                 404
@@ -70,7 +118,9 @@ export const getCart = catchAsyncHandler(
         } else if (!DocCart) {
             //=> Create new doc
             const DocNew = await Cart.create({
-                owner: req.user._id,
+                ...getCartOwnerFields(
+                    req.cart_owner || { owner: req.user._id }
+                ),
                 products: [],
             })
 
@@ -94,9 +144,18 @@ export const getCart = catchAsyncHandler(
                 ],
             })
 
-            //=> Transform product image url to make it complete
+            //=> Price lines with deals active now, and get currency asked
+            const prices = await priceLines(DocCart.products, {
+                user_id: DocCart.owner,
+            })
+            const currency = await resolveCurrency(req.query.currency)
+
+            //=> Transform product image url to make it complete, and add prices
             const transformedProducts = DocCart.products.map(
-                ({ product, selected_variants, quantity }) => {
+                (
+                    { _id, product, selected_variants, quantity, reservation },
+                    ind
+                ) => {
                     if (
                         product instanceof Product &&
                         product.image instanceof Media
@@ -106,7 +165,33 @@ export const getCart = catchAsyncHandler(
                             req
                         )
                     }
-                    return { product, selected_variants, quantity }
+                    return {
+                        _id,
+                        product,
+                        selected_variants,
+                        quantity,
+                        reservation,
+                        pricing: {
+                            currency: currency.code,
+                            price: convertPrice(prices[ind].price, currency),
+                            selling_price: convertPrice(
+                                prices[ind].selling_price,
+                                currency
+                            ),
+                            deal_price: convertOptionalPrice(
+                                prices[ind].deal_price,
+                                currency
+                            ),
+                            deal_ends_at: prices[ind].deal?.expires_in,
+                            segments: prices[ind].segments.map((segment) => ({
+                                ...segment,
+                                unit_price: convertPrice(
+                                    segment.unit_price,
+                                    currency
+                                ),
+                            })),
+                        },
+                    }
                 }
             )
 
@@ -173,42 +258,37 @@ export const getManyCart = catchAsyncHandler(
  ** ==========================================================
  */
 export const deleteCart = catchAsyncHandler(
-    async (req: Request, res: Response, next: NextFunction) => {
+    async (req: Request, res: Response) => {
         //1) Get id a cart to be delete
         const id = req.params.id
 
-        //2) Delete cart
-        const DocCart = await Cart.findOneAndDelete({ _id: id })
-
-        //3) If no doc to delete, throw err
-        if (!DocCart) {
-            throw new AppError(
-                'No cart document found to delete with the id provided.',
-                404
+        //2) Delete cart and reclaim its stock within a transaction
+        await withTransaction(async (session) => {
+            //=> Delete cart
+            const DocCart = await Cart.findOneAndDelete(
+                { _id: id },
+                { session }
             )
-        }
 
-        //4) Reclaim the stock
-        const updateAllProducts = DocCart.products.map(async (prod) => {
-            //=> Get id and quantity
-            const prodId = prod.product
-            const quantity = prod.quantity
+            //=> If no doc to delete, throw err
+            if (!DocCart) {
+                throw new AppError(
+                    'No cart document found to delete with the id provided.',
+                    404
+                )
+            }
 
-            //=> Reclaim stock
-            return Product.findOneAndUpdate(
-                { _id4: prodId },
-                { $in4c: { stock: +quantity } },
-                { ne4w: true, runValidators: true }
+            //=> Reclaim the stock of lines which still hold an active reservation
+            await releaseLines(
+                DocCart.products.filter(
+                    (prod) => prod.reservation?.status !== 'released'
+                ),
+                session
             )
         })
 
-        //5) Consume all promises and then send a response
-        Promise.all(updateAllProducts)
-            .then(() => {
-                //=> Send a response
-                res.status(204).json()
-            })
-            .catch((err) => next(err))
+        //3) Send a response
+        res.status(204).json()
     }
 )
 
@@ -229,89 +309,70 @@ export const addItemInCart = catchAsyncHandler(
 
         //2) Get fields
         const productId = new ObjectId(req.body.product.toString())
-        const quantity = Number(req.body.quantity) * 1
-
-        //3 Update product stocks and remove equal the quantity being add in the cart
-        const DocProduct = await Product.findOneAndUpdate(
-            { _id: req.body.product, stock: { $gte: quantity } },
-            { $inc: { stock: -quantity } },
-            { new: true, runValidators: true }
-        )
-
-        //4) If not updated product stock due to not enough stock, throw err
-        if (!DocProduct) {
-            throw new AppError('No sufficient stock available.', 400)
-        }
-
-        //5) Find user cart, if not exist create a new one
-        const DocCart = await Cart.findOneAndUpdate(
-            { owner: req.user._id },
-            { owner: req.user._id },
-            { upsert: true, new: true, runValidators: true }
-        )
+        const quantity = Number(req.body.quantity)
 
-        //6) If failed, rollback changes, and throw err
-        if (!DocCart) {
-            //=> Rollback changes
-            DocProduct.stock += quantity
-            await DocProduct.save()
-
-            //=> Throw err
+        //3) Quantity must be a whole number within what a line allows
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000) {
             throw new AppError(
-                'Failed to add item in cart, please try again.',
-                500
+                'Please provide a valid quantity between 1 and 1000.',
+                400
             )
         }
 
-        //7) Try to find index of a product in cart if it exist
-        const ind = DocCart.products?.findIndex(
-            (curr) => curr.product.toString() === productId.toString()
-        )
+        //4) Reserve stock and add item in cart within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find product to be added, if not exist, throw err
+            const DocProductToAdd = await Product.findById(productId).session(
+                session
+            )
+            if (!DocProductToAdd) {
+                throw new AppError(
+                    'No product exist with the id provided to add into the cart.',
+                    404
+                )
+            }
 
-        //8) If item already exist, increment the quanity, else push new product
-        if (ind !== -1) {
-            DocCart.products[ind].quantity += quantity
-        } else {
-            DocCart.products?.push({
-                product: productId,
-                selected_variants: req.body.selected_variants,
-                quantity: quantity,
-            })
-        }
+            //=> Validate selected variants against variants declared on product
+            const selectedVariants = validateSelectedVariants(
+                DocProductToAdd,
+                req.body.selected_variants
+            )
 
-        //9) Save changes
-        await DocCart.save()
+            //=> Find cart of user or guest, if not exist create a new one
+            const DocCart = await Cart.findOneAndUpdate(
+                req.cart_owner,
+                getCartOwnerFields(req.cart_owner),
+                { upsert: true, new: true, runValidators: true, session }
+            )
 
-        //10) Populate products
-        await DocCart.populate({
-            path: 'products.product',
-            populate: [
+            //=> Reserve stock of item and add it in cart, merging it into its line if one exists
+            await addLineToCart(
+                DocCart,
                 {
-                    path: 'image',
-                    model: 'Media',
+                    product: productId,
+                    selected_variants: selectedVariants,
+                    quantity,
                 },
-            ],
+                req.cart_owner.owner,
+                session
+            )
+
+            //=> Save changes
+            await DocCart.save({ session })
+
+            //=> Return cart
+            return DocCart
         })
 
-        //10) Transform product image url to make it complete
-        const transformedProducts = DocCart.products.map(
-            ({ product, selected_variants, quantity }) => {
-                if (
-                    product instanceof Product &&
-                    product.image instanceof Media
-                ) {
-                    product.image.url = makeUrlComplete(product.image.url, req)
-                }
-                return { product, quantity, selected_variants }
-            }
-        )
+        //5) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
 
-        //11) Send a response
+        //6) Send a response
         res.status(200).json({
             status: 'success',
             data: {
                 ...DocCart.toJSON(),
-                products: transformedProducts,
+                ...lines,
             },
         })
     }
@@ -340,101 +401,1419 @@ export const removeItemFromCart = catchAsyncHandler(
 
         //2) Get fields
         const productId = new ObjectId(req.body.product.toString())
-        const quantity = Number(req.body.quantity) * 1
+        const quantity = Number(req.body.quantity)
 
-        //3) Find user cart, if not exist create a new one
-        const DocCart = await Cart.findOneAndUpdate(
-            { owner: req.user._id },
-            { owner: req.user._id },
-            { upsert: true, new: true, runValidators: true }
-        )
+        //3) Quantity must be a positive whole number
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new AppError(
+                'Please provide a valid quantity of the product to be remove from the cart.',
+                400
+            )
+        }
 
-        //4) Try to find index of a product in cart if it exist
-        const ind = DocCart.products?.findIndex(
-            (curr) => curr.product.toString() === productId.toString()
-        )
+        //4) Remove item from cart and give back its stock within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find product to be removed, if not exist, throw err
+            const DocProductToRemove = await Product.findById(
+                productId
+            ).session(session)
+            if (!DocProductToRemove) {
+                throw new AppError(
+                    'No product exist with the id provided to remove from the cart.',
+                    404
+                )
+            }
+
+            //=> Validate selected variants against variants declared on product
+            const selectedVariants = validateSelectedVariants(
+                DocProductToRemove,
+                req.body.selected_variants
+            )
+
+            //=> Find cart of user or guest, if not exist create a new one
+            const DocCart = await Cart.findOneAndUpdate(
+                req.cart_owner,
+                getCartOwnerFields(req.cart_owner),
+                { upsert: true, new: true, runValidators: true, session }
+            )
+
+            //=> Try to find index of a line with same product and variants in cart
+            const ind = DocCart.products?.findIndex(
+                (curr) =>
+                    curr.product.toString() === productId.toString() &&
+                    isSameVariantSelection(
+                        curr.selected_variants,
+                        selectedVariants
+                    )
+            )
+
+            //=> If line not found in cart, throw err
+            if (ind === -1) {
+                throw new AppError(
+                    'No item found in the cart with the product and the selected variants provided.',
+                    404
+                )
+            }
 
-        //5) If product not found in cart, throw err
-        if (ind !== -1) {
-            //=> If more quantity was provided than what's available in stock, throw err, decrement the quantity
+            //=> If more quantity was provided than what's in cart, throw err
             if (DocCart.products[ind].quantity < quantity) {
                 throw new AppError(
                     'Please provide quantity equal or less to the amount of products in cart.',
                     400
                 )
-            } else if (DocCart.products[ind].quantity === quantity) {
+            }
+
+            //=> Only a line with an active reservation holds stock to give back
+            const isReserved =
+                DocCart.products[ind].reservation?.status !== 'released'
+
+            //=> Remove the line completely, else decrement the quantity
+            if (DocCart.products[ind].quantity === quantity) {
                 DocCart.products.splice(ind, 1)
             } else {
                 DocCart.products[ind].quantity -= quantity
             }
 
             //=> Save changes
-            await DocCart.save()
-        }
+            await DocCart.save({ session })
 
-        //6 Update product stocks and remove equal the quantity being add in the cart
-        const DocProduct = await Product.findOneAndUpdate(
-            { _id: req.body.product },
-            { $inc: { stock: +quantity } },
-            { new: true, runValidators: true }
-        )
+            //=> Update stocks of product or its variant combination and add back the quantity being removed from the cart
+            if (isReserved) {
+                await incrementStock(
+                    productId,
+                    selectedVariants,
+                    quantity,
+                    session
+                )
+            }
 
-        //7) If failed to update product stock, rollback changes, and throw error.
-        if (!DocProduct) {
-            //=> If item was removed completely, insert, else increment the quantity
-            if (
-                DocCart.products[ind].product.toString() ===
-                productId.toString()
-            )
-                DocCart.products[ind].quantity += quantity
-            else
-                DocCart.products?.push({
-                    product: productId,
-                    selected_variants: req.body.selected_variants,
-                    quantity: quantity,
-                })
+            //=> Return cart
+            return DocCart
+        })
 
-            //=> Save changes
-            await DocCart.save()
+        //5) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocCart.toJSON(),
+                ...lines,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** setCartItemQuantity - Set the exact quantity of a line in
+ ** the cart
+ ** ==========================================================
+ */
+export const setCartItemQuantity = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of line, and quantity to be set
+        const lineId = req.params.lineId
+        const quantity = Number(req.body.quantity)
 
-            //=> Throw err
+        //2) Quantity must be a whole number within what a line allows
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000) {
             throw new AppError(
-                'Failed to remove item from the cart. Please try again.',
-                500
+                'Please provide a valid quantity between 1 and 1000.',
+                400
             )
         }
 
-        //8) Populate products
-        await DocCart.populate({
-            path: 'products.product',
-            populate: [
+        //3) Set quantity and reserve or give back the difference of stock within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find cart and its line, if not exist, throw err
+            const { DocCart, ind } = await findCartLine(
+                req.cart_owner,
+                lineId,
+                session
+            )
+            const line = DocCart.products[ind]
+
+            //=> A line whose reservation was released must reserve all of its quantity again
+            const reserved =
+                line.reservation?.status === 'released' ? 0 : line.quantity
+            if (quantity > reserved) {
+                const DocProduct = await decrementStock(
+                    line.product,
+                    line.selected_variants,
+                    quantity - reserved,
+                    session
+                )
+                if (!DocProduct) {
+                    throw new AppError('No sufficient stock available.', 400)
+                }
+            } else if (quantity < reserved) {
+                await incrementStock(
+                    line.product,
+                    line.selected_variants,
+                    reserved - quantity,
+                    session
+                )
+            }
+
+            //=> Set quantity, and renew reservation
+            line.quantity = quantity
+            line.reservation = {
+                status: 'active',
+                expires_at: getReservationExpiry(),
+            }
+
+            //=> Customer must not exceed the per customer limit of a flash sale
+            await assertFlashSaleLimit(
+                line.product,
+                DocCart.products,
+                req.cart_owner.owner,
+                session
+            )
+
+            //=> Save changes
+            await DocCart.save({ session })
+
+            //=> Return cart
+            return DocCart
+        })
+
+        //4) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //5) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocCart.toJSON(),
+                ...lines,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** clearCart - Remove all lines from the cart, and give back
+ ** stock they hold
+ ** ==========================================================
+ */
+export const clearCart = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Empty cart and give back its stock within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find cart, if not exist, throw err
+            const DocCart = await Cart.findOne(req.cart_owner).session(session)
+            if (!DocCart) {
+                throw new AppError('No cart found to be cleared.', 404)
+            }
+
+            //=> Empty cart, only if its reservations weren't released meanwhile
+            const reservedLines = DocCart.products.filter(
+                (line) => line.reservation?.status !== 'released'
+            )
+            const DocCartCleared = await Cart.findOneAndUpdate(
                 {
-                    path: 'image',
-                    model: 'Media',
+                    _id: DocCart._id,
+                    products: {
+                        $not: {
+                            $elemMatch: {
+                                _id: {
+                                    $in: reservedLines.map((line) => line._id),
+                                },
+                                'reservation.status': 'released',
+                            },
+                        },
+                    },
                 },
-            ],
+                { $set: { products: [] } },
+                { new: true, session }
+            )
+            if (!DocCartCleared) {
+                throw new AppError(
+                    'Your cart was modified meanwhile, please try again.',
+                    409
+                )
+            }
+
+            //=> Give back stock of lines holding it
+            await releaseLines(reservedLines, session)
+
+            //=> Return cart
+            return DocCartCleared
         })
 
-        //9) Transform product image url to make it complete
-        const transformedProducts = DocCart.products.map(
-            ({ product, selected_variants, quantity }) => {
-                if (
-                    product instanceof Product &&
-                    product.image instanceof Media
-                ) {
-                    product.image.url = makeUrlComplete(product.image.url, req)
-                }
-                return { product, selected_variants, quantity }
+        //2) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //3) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocCart.toJSON(),
+                ...lines,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** saveCartItemForLater - Move a line of the cart into the
+ ** saved for later list, and give back stock it holds
+ ** ==========================================================
+ */
+export const saveCartItemForLater = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of line to be saved
+        const lineId = req.params.lineId
+
+        //2) Move line and give back its stock within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find cart and its line, if not exist, throw err
+            const { DocCart, ind } = await findCartLine(
+                req.cart_owner,
+                lineId,
+                session
+            )
+            const [line] = DocCart.products.splice(ind, 1)
+
+            //=> Add line in saved for later list, else increment quantity of its saved item
+            const saved = DocCart.saved_for_later || []
+            const savedInd = saved.findIndex(
+                (item) =>
+                    item.product.equals(line.product) &&
+                    isSameVariantSelection(
+                        item.selected_variants,
+                        line.selected_variants
+                    )
+            )
+            if (savedInd !== -1) {
+                saved[savedInd].quantity = Math.min(
+                    saved[savedInd].quantity + line.quantity,
+                    1000
+                )
+            } else {
+                saved.push({
+                    product: line.product,
+                    selected_variants: line.selected_variants,
+                    quantity: line.quantity,
+                    saved_at: new Date(),
+                })
+            }
+            DocCart.saved_for_later = saved
+
+            //=> Save changes
+            await DocCart.save({ session })
+
+            //=> Give back stock of line, if it holds it
+            if (line.reservation?.status !== 'released') {
+                await releaseLines([line], session)
+            }
+
+            //=> Return cart
+            return DocCart
+        })
+
+        //3) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocCart.toJSON(),
+                ...lines,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** moveSavedItemToCart - Move an item saved for later back into
+ ** the cart, and reserve its stock
+ ** ==========================================================
+ */
+export const moveSavedItemToCart = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of saved item to be moved
+        const savedId = req.params.savedId
+
+        //2) Move item and reserve its stock within a transaction
+        const DocCart = await withTransaction(async (session) => {
+            //=> Find cart and its saved item, if not exist, throw err
+            const DocCart = await Cart.findOne(req.cart_owner).session(session)
+            const savedInd =
+                DocCart?.saved_for_later?.findIndex(
+                    (item) => item._id?.toString() === savedId
+                ) ?? -1
+            if (!DocCart || !DocCart.saved_for_later || savedInd === -1) {
+                throw new AppError(
+                    'No item saved for later found with the id provided.',
+                    404
+                )
             }
+            const [item] = DocCart.saved_for_later.splice(savedInd, 1)
+
+            //=> Reserve stock of item and add it in cart
+            await addLineToCart(DocCart, item, req.cart_owner.owner, session)
+
+            //=> Save changes
+            await DocCart.save({ session })
+
+            //=> Return cart
+            return DocCart
+        })
+
+        //3) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocCart.toJSON(),
+                ...lines,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** removeSavedItem - Remove an item from the saved for later
+ ** list
+ ** ==========================================================
+ */
+export const removeSavedItem = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Remove saved item
+        const DocCart = await Cart.findOneAndUpdate(
+            { ...req.cart_owner, 'saved_for_later._id': req.params.savedId },
+            { $pull: { saved_for_later: { _id: req.params.savedId } } },
+            { new: true }
         )
 
-        //10) Send a response
+        //2) If no saved item found, throw err
+        if (!DocCart) {
+            throw new AppError(
+                'No item saved for later found with the id provided.',
+                404
+            )
+        }
+
+        //3) Populate products, and make their image url complete
+        const lines = await populateCartLines(DocCart, req)
+
+        //4) Send a response
         res.status(200).json({
             status: 'success',
             data: {
                 ...DocCart.toJSON(),
-                products: transformedProducts,
+                ...lines,
             },
         })
     }
 )
+
+/**
+ ** ==========================================================
+ ** applyCouponToCart - Apply a coupon code to user cart
+ ** ==========================================================
+ */
+export const applyCouponToCart = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get code of coupon to be applied
+        const code = String(req.body.code || '')
+            .trim()
+            .toUpperCase()
+
+        //2) If no code provided, throw err
+        if (!code) {
+            throw new AppError('Please provide a coupon "code" to apply.', 400)
+        }
+
+        //3) Find coupon with code
+        const DocCoupon = await Coupon.findOne({ code })
+
+        //4) If no coupon found, throw err
+        if (!DocCoupon) {
+            throw new AppError('No coupon found with the code provided.', 404)
+        }
+
+        //5) Find user cart
+        const DocCart = await Cart.findOne({ owner: req.user._id })
+
+        //6) If cart is empty, throw err
+        if (!DocCart || DocCart.products.length <= 0) {
+            throw new AppError(
+                'Your cart is empty. Add some products in cart before applying a coupon.',
+                400
+            )
+        }
+
+        //7) Price lines of cart with deals active now
+        const prices = await priceLines(DocCart.products, {
+            user_id: req.user._id,
+        })
+
+        //8) Calc discount of coupon on cart, throws if it can't be applied
+        const { discount, free_shipping } = await calcCouponDiscount(
+            DocCoupon,
+            prices.flatMap((price) =>
+                price.segments.map((segment) => ({
+                    product: price.product_id,
+                    selling_price: segment.unit_price,
+                    quantity: segment.quantity,
+                }))
+            ),
+            req.user._id as ObjectId,
+            { enforce: true }
+        )
+
+        //9) Apply coupon to cart
+        await Cart.updateOne({ _id: DocCart._id }, { coupon: DocCoupon._id })
+
+        //10) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                coupon: {
+                    code: DocCoupon.code,
+                    type: DocCoupon.type,
+                    value: DocCoupon.value,
+                },
+                discount,
+                free_shipping,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** removeCouponFromCart - Remove coupon applied to user cart
+ ** ==========================================================
+ */
+export const removeCouponFromCart = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Remove coupon from user cart
+        const DocCart = await Cart.findOneAndUpdate(
+            { owner: req.user._id, coupon: { $exists: true } },
+            { $unset: { coupon: 1 } }
+        )
+
+        //2) If no coupon applied, throw err
+        if (!DocCart) {
+            throw new AppError('No coupon is applied to your cart.', 404)
+        }
+
+        //3) Send a response
+        res.status(204).json()
+    }
+)
+
+/**
+ ** ==========================================================
+ ** setCartShippingMethod - Choose service level to ship user
+ ** cart with
+ ** ==========================================================
+ */
+export const setCartShippingMethod = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get service level to ship with
+        const service_level = req.body.service_level
+
+        //2) If not a valid service level, throw err
+        if (!['standard', 'express'].includes(service_level)) {
+            throw new AppError(
+                'Must provide "service_level" of one of these values: "standard" or "express".',
+                400
+            )
+        }
+
+        //3) Set shipping method of user cart
+        const DocCart = await Cart.findOneAndUpdate(
+            { owner: req.user._id },
+            { shipping_method: service_level },
+            { new: true, runValidators: true }
+        )
+
+        //4) If user has no cart, throw err
+        if (!DocCart) {
+            throw new AppError(
+                'Your cart is empty. Add some products in cart before choosing a shipping method.',
+                400
+            )
+        }
+
+        //5) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                shipping_method: DocCart.shipping_method,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** getCartSummary - Get pricing summary of user cart, from its
+ ** lines up to the grand total charged at checkout
+ ** ==========================================================
+ */
+export const getCartSummary = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find user cart
+        const DocCart = await Cart.findOne({ owner: req.user._id })
+
+        //2) Get default shipping address
+        const shipping_address = req.user.addresses.find(
+            (address) => address.default_shipping_address === true
+        )
+
+        //3) Resolve currency asked, else the one of shipping country
+        const currency = await resolveCurrency(
+            req.query.currency,
+            shipping_address?.country
+        )
+
+        //4) Summarize prices of cart shipped to address, an empty cart sums up to zero
+        const summary = await summarizeCart(
+            DocCart || { owner: req.user._id as ObjectId, products: [] },
+            {
+                enforce_coupon: true,
+                shipping_address,
+                currency,
+                report_errors: true,
+            }
+        )
+
+        //5) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: summary,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** commitCartReservations - Turn reservations of a cart into
+ ** sold stock, and empty the cart, must run in a transaction
+ ** ==========================================================
+ */
+export const commitCartReservations = async (
+    DocCart: HydratedDocument<ICart>,
+    session: ClientSession
+) => {
+    //1) Lines whose reservation was released must reserve stock again
+    const releasedLines = DocCart.products.filter(
+        (prod) => prod.reservation?.status === 'released'
+    )
+
+    //2) Reserve stock again for released lines, if failed, throw err
+    for (const line of releasedLines) {
+        const DocProduct = await decrementStock(
+            line.product,
+            line.selected_variants,
+            line.quantity,
+            session
+        )
+
+        if (!DocProduct) {
+            throw new AppError(
+                'No sufficient stock available for some of the items in your cart.',
+                400
+            )
+        }
+    }
+
+    //3) Empty cart, only if no other reservation was released in the meantime
+    const DocCartEmptied = await Cart.findOneAndUpdate(
+        {
+            _id: DocCart._id,
+            products: {
+                $not: {
+                    $elemMatch: {
+                        _id: { $nin: releasedLines.map((line) => line._id) },
+                        'reservation.status': 'released',
+                    },
+                },
+            },
+        },
+        { $set: { products: [] }, $unset: { coupon: 1 } },
+        { session }
+    )
+
+    //4) If cart was modified in the meantime, throw err
+    if (!DocCartEmptied) {
+        throw new AppError(
+            'Your cart was modified during checkout, please try again.',
+            409
+        )
+    }
+}
+
+/**
+ ** ==========================================================
+ ** commitCheckoutLines - Turn the lines of a checkout into sold
+ ** stock and take them out of cart, lines which are no longer
+ ** reserved in cart reserve their stock again, throws if there
+ ** isn't enough of it
+ ** ==========================================================
+ */
+export const commitCheckoutLines = async (
+    DocCart: HydratedDocument<ICart> | null,
+    lines: Array<
+        Pick<ICart['products'][number], 'product' | 'selected_variants'> & {
+            quantity: number
+        }
+    >,
+    session: ClientSession
+) => {
+    for (const line of lines) {
+        //=> Find line of cart with the same product and variants
+        const ind = (DocCart?.products || []).findIndex(
+            (curr) =>
+                curr.product.equals(line.product) &&
+                isSameVariantSelection(
+                    curr.selected_variants,
+                    line.selected_variants
+                )
+        )
+        const cartLine =
+            DocCart && ind !== -1 ? DocCart.products[ind] : undefined
+
+        //=> Reserve stock of quantity not reserved in cart, if not enough, throw err
+        const reservedQuantity =
+            cartLine && cartLine.reservation?.status !== 'released'
+                ? Math.min(cartLine.quantity, line.quantity)
+                : 0
+        if (line.quantity > reservedQuantity) {
+            const DocProduct = await decrementStock(
+                line.product,
+                line.selected_variants,
+                line.quantity - reservedQuantity,
+                session
+            )
+            if (!DocProduct) {
+                throw new AppError(
+                    'No sufficient stock available for some of the items in your cart.',
+                    400
+                )
+            }
+        }
+
+        //=> Take quantity out of cart line, and the line once nothing is left of it
+        if (!DocCart || !cartLine) continue
+        if (cartLine.quantity <= line.quantity) {
+            DocCart.products.splice(ind, 1)
+        } else {
+            cartLine.quantity -= line.quantity
+        }
+    }
+
+    //=> Remove coupon used, and save changes
+    if (!DocCart) return
+    DocCart.coupon = undefined
+    await DocCart.save({ session })
+}
+
+/**
+ ** ==========================================================
+ ** holdCartReservations - Keep reservations of a cart until
+ ** the expiry given, so they outlive the checkout session paying
+ ** for them, lines released already reserve their stock again
+ ** ==========================================================
+ */
+export const holdCartReservations = async (
+    cart_id: ObjectId,
+    expires_at: Date
+) => {
+    return withTransaction(async (session) => {
+        //1) Find cart
+        const DocCart = await Cart.findById(cart_id).session(session)
+        if (!DocCart) return
+
+        //2) Hold reservation of each line
+        for (const line of DocCart.products) {
+            //=> Reserve stock again of a released line, if failed, throw err
+            if (line.reservation?.status === 'released') {
+                const DocProduct = await decrementStock(
+                    line.product,
+                    line.selected_variants,
+                    line.quantity,
+                    session
+                )
+                if (!DocProduct) {
+                    throw new AppError(
+                        'No sufficient stock available for some of the items in your cart.',
+                        400
+                    )
+                }
+            }
+
+            //=> Extend reservation, but never shorten it, only if line wasn't released meanwhile
+            const UpdateResults = await Cart.updateOne(
+                {
+                    _id: DocCart._id,
+                    products: {
+                        $elemMatch: {
+                            _id: line._id,
+                            'reservation.status':
+                                line.reservation?.status === 'released'
+                                    ? 'released'
+                                    : { $ne: 'released' },
+                        },
+                    },
+                },
+                {
+                    $set: {
+                        'products.$.reservation': {
+                            status: 'active',
+                            expires_at:
+                                line.reservation?.status === 'active' &&
+                                line.reservation.expires_at &&
+                                line.reservation.expires_at > expires_at
+                                    ? line.reservation.expires_at
+                                    : expires_at,
+                        },
+                    },
+                },
+                { session }
+            )
+            if (UpdateResults.matchedCount <= 0) {
+                throw new AppError(
+                    'Your cart was modified during checkout, please try again.',
+                    409
+                )
+            }
+        }
+    })
+}
+
+/**
+ ** ==========================================================
+ ** releaseExpiredReservations - Give back stock of the cart
+ ** lines whose reservation has expired, returns the number of
+ ** lines released
+ ** ==========================================================
+ */
+export const releaseExpiredReservations = async (now: Date = new Date()) => {
+    //1) Find carts having lines with an expired reservation
+    const DocsCart = await Cart.find({
+        products: {
+            $elemMatch: {
+                'reservation.status': 'active',
+                'reservation.expires_at': { $lte: now },
+            },
+        },
+    })
+
+    //2) Release each expired line
+    let released = 0
+    for (const DocCart of DocsCart) {
+        for (const line of DocCart.products) {
+            //=> Skip lines whose reservation hasn't expired
+            if (
+                line.reservation?.status !== 'active' ||
+                !line.reservation.expires_at ||
+                line.reservation.expires_at > now
+            )
+                continue
+
+            //=> Claim the line and give back its stock within a transaction
+            const isReleased = await withTransaction(async (session) => {
+                //=> Claim the line, so it's never released twice
+                const UpdateResults = await Cart.updateOne(
+                    {
+                        _id: DocCart._id,
+                        products: {
+                            $elemMatch: {
+                                _id: line._id,
+                                'reservation.status': 'active',
+                                'reservation.expires_at': { $lte: now },
+                            },
+                        },
+                    },
+                    { $set: { 'products.$.reservation.status': 'released' } },
+                    { session }
+                )
+                if (UpdateResults.modifiedCount <= 0) return false
+
+                //=> Give back the stock
+                await incrementStock(
+                    line.product,
+                    line.selected_variants,
+                    line.quantity,
+                    session
+                )
+                return true
+            })
+
+            if (isReleased) released++
+        }
+    }
+
+    //3) Return the number of lines released
+    return released
+}
+
+/**
+ ** ==========================================================
+ ** remindAbandonedCarts - Email users whose cart has been left
+ ** untouched longer than the threshold, once per change of cart,
+ ** returns the number of users reminded
+ ** ==========================================================
+ */
+export const remindAbandonedCarts = async (now: Date = new Date()) => {
+    //1) Find carts of users left untouched since threshold, whose owner isn't notified
+    const DocsCart = await Cart.find({
+        owner: { $exists: true },
+        'products.0': { $exists: true },
+        is_owner_notified: false,
+        modified_at: {
+            $lte: new Date(
+                now.getTime() -
+                    ((process.env.ABANDONED_CART_THRESHOLD || 24) as number) *
+                        60 *
+                        60 *
+                        1000
+            ),
+        },
+    })
+    if (!DocsCart.length) return 0
+
+    //2) Read email template
+    const template = (
+        await fs.promises.readFile(
+            `${global.app_dir}/views/abandoned-cart.html`
+        )
+    ).toString()
+
+    //3) Remind owner of each cart
+    let reminded = 0
+    for (const DocCart of DocsCart) {
+        //=> Claim the cart, only if it hasn't changed meanwhile, so its owner is never reminded twice
+        const UpdateResults = await Cart.updateOne(
+            {
+                _id: DocCart._id,
+                is_owner_notified: false,
+                modified_at: DocCart.modified_at,
+            },
+            { $set: { is_owner_notified: true } }
+        )
+        if (UpdateResults.modifiedCount <= 0) continue
+
+        try {
+            //=> Find owner and products of cart
+            const DocUser = await User.findById(DocCart.owner)
+            if (!DocUser) continue
+            await DocCart.populate({
+                path: 'products.product',
+                select: 'title',
+            })
+            const lines = DocCart.products
+                .filter((line) => line.product)
+                .map((line) => {
+                    const title =
+                        line.product instanceof Product
+                            ? line.product.title
+                            : ''
+                    const variants = line.selected_variants
+                        .map((variant) => `${variant.name}: ${variant.term}`)
+                        .join(', ')
+                    return {
+                        title: variants ? `${title} (${variants})` : title,
+                        quantity: line.quantity,
+                    }
+                })
+            if (!lines.length) continue
+
+            //=> Replace placeholders with values escaped, replaced by functions so no "$" pattern in them is expanded
+            const cartUrl = `${process.env.STORE_URL || ''}/cart`
+            const html = template
+                .replace(/<==NAME==>/, () => validator.escape(DocUser.name))
+                .replace(/<==PRODUCTS==>/, () =>
+                    lines
+                        .map(
+                            (line) =>
+                                `<tr><td style="font-family: sans-serif; font-size: 14px; padding: 5px 0;">${validator.escape(
+                                    line.title
+                                )}</td><td style="font-family: sans-serif; font-size: 14px; padding: 5px 0; text-align: right;">x ${
+                                    line.quantity
+                                }</td></tr>`
+                        )
+                        .join('')
+                )
+                .replace(/<==URL==>/, () => validator.escape(cartUrl))
+
+            //=> Email owner
+            await mail({
+                to: DocUser.email,
+                subject: 'Your cart is waiting',
+                html,
+                message: `Hi ${
+                    DocUser.name
+                }, you left these products in your cart:\n\n${lines
+                    .map((line) => `${line.title} x ${line.quantity}`)
+                    .join('\n')}\n\nComplete your order at ${cartUrl}`,
+            })
+            reminded++
+        } catch (err) {
+            //=> Release the claim, so owner is reminded on next run
+            await Cart.updateOne(
+                { _id: DocCart._id, modified_at: DocCart.modified_at },
+                { $set: { is_owner_notified: false } }
+            )
+            console.log(
+                `Failed to remind owner of abandoned cart [${DocCart._id}]:\t[${
+                    (err as Error).message
+                }]`
+            )
+        }
+    }
+
+    //4) Return the number of users reminded
+    return reminded
+}
+
+/**
+ ** ==========================================================
+ ** getReservationExpiry - Get the expiry date of a reservation
+ ** made right now
+ ** ==========================================================
+ */
+const getReservationExpiry = () => {
+    return new Date(
+        Date.now() +
+            ((process.env.CART_RESERVATION_EXPIRATION || 30) as number) *
+                60 *
+                1000
+    )
+}
+
+/**
+ ** ==========================================================
+ ** releaseLines - Give back the stock reserved by cart lines
+ ** ==========================================================
+ */
+const releaseLines = async (
+    lines: ICart['products'],
+    session: ClientSession
+) => {
+    for (const line of lines) {
+        await incrementStock(
+            line.product,
+            line.selected_variants,
+            line.quantity,
+            session
+        )
+    }
+}
+
+/**
+ ** ==========================================================
+ ** addLineToCart - Reserve stock of an item and add it in the
+ ** cart, merging it into its line if one exists, throws if not
+ ** enough stock or over the limit of a flash sale
+ ** ==========================================================
+ */
+export const addLineToCart = async (
+    DocCart: HydratedDocument<ICart>,
+    item: Pick<
+        ICart['products'][number],
+        'product' | 'selected_variants' | 'quantity'
+    >,
+    user_id: ObjectId | undefined,
+    session: ClientSession
+) => {
+    //1) Find line of cart with same product and variants, if it exist
+    const ind = DocCart.products.findIndex(
+        (line) =>
+            line.product.equals(item.product) &&
+            isSameVariantSelection(
+                line.selected_variants,
+                item.selected_variants
+            )
+    )
+
+    //2) Quantity of the line must not exceed the maximum of a line
+    if (
+        item.quantity + (ind !== -1 ? DocCart.products[ind].quantity : 0) >
+        1000
+    ) {
+        throw new AppError(
+            'A line in cart can have a maximum quantity of 1000.',
+            400
+        )
+    }
+
+    //3) Reserve stock of item, if not enough, throw err
+    const DocProduct = await decrementStock(
+        item.product,
+        item.selected_variants,
+        item.quantity,
+        session
+    )
+    if (!DocProduct) {
+        throw new AppError('No sufficient stock available.', 400)
+    }
+
+    //4) A line with a released reservation must reserve its quantity again as well
+    if (
+        ind !== -1 &&
+        DocCart.products[ind].reservation?.status === 'released'
+    ) {
+        const DocProductReserved = await decrementStock(
+            item.product,
+            item.selected_variants,
+            DocCart.products[ind].quantity,
+            session
+        )
+        if (!DocProductReserved) {
+            throw new AppError('No sufficient stock available.', 400)
+        }
+    }
+
+    //5) Increment quantity of its line in cart, else add a new line, and renew reservation
+    const reservation = {
+        status: 'active' as const,
+        expires_at: getReservationExpiry(),
+    }
+    if (ind !== -1) {
+        DocCart.products[ind].quantity += item.quantity
+        DocCart.products[ind].reservation = reservation
+    } else {
+        DocCart.products.push({
+            product: item.product,
+            selected_variants: item.selected_variants,
+            quantity: item.quantity,
+            reservation,
+        })
+    }
+
+    //6) Customer must not exceed the per customer limit of a flash sale
+    await assertFlashSaleLimit(item.product, DocCart.products, user_id, session)
+}
+
+/**
+ ** ==========================================================
+ ** findCartLine - Find cart of the owner given, and index of
+ ** its line, throws if not found
+ ** ==========================================================
+ */
+const findCartLine = async (
+    cart_owner: Request['cart_owner'],
+    lineId: string,
+    session: ClientSession
+) => {
+    //1) Find cart
+    const DocCart = await Cart.findOne(cart_owner).session(session)
+
+    //2) Find index of line
+    const ind =
+        DocCart?.products.findIndex(
+            (line) => line._id?.toString() === lineId
+        ) ?? -1
+
+    //3) If cart or line not found, throw err
+    if (!DocCart || ind === -1) {
+        throw new AppError(
+            'No item found in the cart with the id provided.',
+            404
+        )
+    }
+
+    //4) Return cart, and index of line
+    return { DocCart, ind }
+}
+
+/**
+ ** ==========================================================
+ ** populateCartLines - Populate products of lines and items
+ ** saved for later of a cart, and make their image url complete
+ ** ==========================================================
+ */
+const populateCartLines = async (
+    DocCart: HydratedDocument<ICart>,
+    req: Request
+) => {
+    //1) Populate products
+    await DocCart.populate(
+        ['products.product', 'saved_for_later.product'].map((path) => ({
+            path,
+            populate: [
+                {
+                    path: 'image',
+                    model: 'Media',
+                },
+            ],
+        }))
+    )
+
+    //2) Make image url of product complete, once per image
+    const transformed = new Set<unknown>()
+    const transformImage = (product: unknown) => {
+        if (
+            product instanceof Product &&
+            product.image instanceof Media &&
+            !transformed.has(product.image)
+        ) {
+            product.image.url = makeUrlComplete(product.image.url, req)
+            transformed.add(product.image)
+        }
+        return product
+    }
+
+    //3) Return lines and saved items
+    return {
+        products: DocCart.products.map(
+            ({ _id, product, selected_variants, quantity, reservation }) => ({
+                _id,
+                product: transformImage(product),
+                selected_variants,
+                quantity,
+                reservation,
+            })
+        ),
+        saved_for_later: (DocCart.saved_for_later || []).map(
+            ({ _id, product, selected_variants, quantity, saved_at }) => ({
+                _id,
+                product: transformImage(product),
+                selected_variants,
+                quantity,
+                saved_at,
+            })
+        ),
+    }
+}
+
+/**
+ ** ==========================================================
+ ** getGuestCartExpiry - Get the expiry date of a guest cart
+ ** modified right now
+ ** ==========================================================
+ */
+const getGuestCartExpiry = () => {
+    return new Date(
+        Date.now() +
+            ((process.env.GUEST_CART_EXPIRATION || 30) as number) *
+                24 *
+                60 *
+                60 *
+                1000
+    )
+}
+
+/**
+ ** ==========================================================
+ ** getCartOwnerFields - Get fields of a cart owned by the user
+ ** or guest given, carts of guests expire when left unused
+ ** ==========================================================
+ */
+const getCartOwnerFields = (cart_owner: Request['cart_owner']) =>
+    cart_owner.guest
+        ? { guest: cart_owner.guest, expires_at: getGuestCartExpiry() }
+        : { owner: cart_owner.owner }
+
+/**
+ ** ==========================================================
+ ** getGuestOfRequest - Get guest of the signed cookie token of
+ ** request, if it's valid
+ ** ==========================================================
+ */
+const getGuestOfRequest = async (req: Request) => {
+    //1) Get token of guest from cookie
+    const token = req.cookies?.[GUEST_CART_COOKIE]
+    if (!token) return undefined
+
+    //2) Verify token, and return guest of it
+    try {
+        const decodedToken = await JWT_VerifyToken(token)
+        return typeof decodedToken.guest === 'string'
+            ? decodedToken.guest
+            : undefined
+    } catch (err) {
+        return undefined
+    }
+}
+
+/**
+ ** ==========================================================
+ ** mergeGuestLine - Merge a line of guest cart into the cart of
+ ** user, returns false if line breaks a stock or variant rule,
+ ** and null if its product no longer exists
+ ** ==========================================================
+ */
+const mergeGuestLine = async (
+    DocCart: HydratedDocument<ICart>,
+    guestLine: ICart['products'][number],
+    user_id: ObjectId,
+    session: ClientSession
+) => {
+    //1) Product must still exist, with the variants selected
+    const DocProduct = await Product.findById(guestLine.product).session(
+        session
+    )
+    if (!DocProduct) return null
+    try {
+        validateSelectedVariants(DocProduct, guestLine.selected_variants)
+    } catch (err) {
+        return false
+    }
+
+    //2) Find line of user cart with same product and variants, if it exist
+    const ind = DocCart.products.findIndex(
+        (curr) =>
+            curr.product.equals(guestLine.product) &&
+            isSameVariantSelection(
+                curr.selected_variants,
+                guestLine.selected_variants
+            )
+    )
+
+    //3) Quantity of merged line must not exceed the maximum of a line
+    const quantity =
+        guestLine.quantity + (ind !== -1 ? DocCart.products[ind].quantity : 0)
+    if (quantity > 1000) return false
+
+    //4) User must not exceed the per customer limit of a flash sale
+    try {
+        await assertFlashSaleLimit(
+            guestLine.product,
+            [
+                ...DocCart.products,
+                { product: guestLine.product, quantity: guestLine.quantity },
+            ],
+            user_id,
+            session
+        )
+    } catch (err) {
+        if (err instanceof AppError) return false
+        throw err
+    }
+
+    //5) Stock of merged line must be reserved as the line of user cart is
+    const isGuestReserved = guestLine.reservation?.status !== 'released'
+    const isReserved =
+        ind === -1
+            ? isGuestReserved
+            : DocCart.products[ind].reservation?.status !== 'released'
+    if (isReserved && !isGuestReserved) {
+        const DocProductReserved = await decrementStock(
+            guestLine.product,
+            guestLine.selected_variants,
+            guestLine.quantity,
+            session
+        )
+        if (!DocProductReserved) return false
+    } else if (!isReserved && isGuestReserved) {
+        await releaseLines([guestLine], session)
+    }
+
+    //6) Increment quantity of line in user cart, else add the line, and renew reservation
+    const reservation = isReserved
+        ? { status: 'active' as const, expires_at: getReservationExpiry() }
+        : guestLine.reservation
+    if (ind !== -1) {
+        DocCart.products[ind].quantity = quantity
+        DocCart.products[ind].reservation = reservation
+    } else {
+        DocCart.products.push({
+            product: guestLine.product,
+            selected_variants: guestLine.selected_variants,
+            quantity: guestLine.quantity,
+            reservation,
+        })
+    }
+
+    //7) Line is merged
+    return true
+}
+
+/**
+ ** ==========================================================
+ ** mergeGuestCart - Merge cart of the guest of request into the
+ ** cart of user given, lines which break stock or variant rules
+ ** are left out, and discard the guest cart
+ ** ==========================================================
+ */
+export const mergeGuestCart = async (
+    req: Request,
+    res: Response,
+    user_id: ObjectId
+) => {
+    //1) Get guest of request, if none, return
+    const guest = await getGuestOfRequest(req)
+    res.clearCookie(GUEST_CART_COOKIE)
+    if (!guest) return
+
+    try {
+        //2) Merge carts within a transaction
+        await withTransaction(async (session) => {
+            //=> Find guest cart, if not exist or empty, there's nothing to merge
+            const DocGuestCart = await Cart.findOneAndDelete(
+                { guest },
+                { session }
+            )
+            if (
+                !DocGuestCart ||
+                (DocGuestCart.products.length <= 0 &&
+                    !DocGuestCart.saved_for_later?.length)
+            )
+                return
+
+            //=> Find user cart, if not exist create a new one
+            const DocCart = await Cart.findOneAndUpdate(
+                { owner: user_id },
+                { owner: user_id },
+                { upsert: true, new: true, runValidators: true, session }
+            )
+
+            //=> Merge each line of guest cart, if it's left out, give back stock it holds
+            for (const guestLine of DocGuestCart.products) {
+                const isMerged = await mergeGuestLine(
+                    DocCart,
+                    guestLine,
+                    user_id,
+                    session
+                )
+                if (
+                    isMerged === false &&
+                    guestLine.reservation?.status !== 'released'
+                ) {
+                    await releaseLines([guestLine], session)
+                }
+            }
+
+            //=> Add items saved for later by guest, which user hasn't saved already
+            const saved = DocCart.saved_for_later || []
+            DocGuestCart.saved_for_later?.forEach((item) => {
+                const isSaved = saved.some(
+                    (curr) =>
+                        curr.product.equals(item.product) &&
+                        isSameVariantSelection(
+                            curr.selected_variants,
+                            item.selected_variants
+                        )
+                )
+                if (!isSaved) saved.push(item)
+            })
+            DocCart.saved_for_later = saved
+
+            //=> Save changes
+            await DocCart.save({ session })
+        })
+    } catch (err) {
+        console.log(
+            `Failed to merge guest cart into cart of user [${user_id}]:\t[${
+                (err as Error).message
+            }]`
+        )
+    }
+}
@@ -31,6 +31,7 @@ export const createCategory = catchAsyncHandler(
             description: req.body.description,
             image: new ObjectId(req.body.image),
             parent: req.body.parent,
+            tax_class: req.body.tax_class,
         }
 
         //2) Create category
@@ -211,7 +212,14 @@ export const getTotalSalesInEachCategory = catchAsyncHandler(
             {
                 $group: {
                     _id: '$product.categories',
-                    sales: { $sum: '$billing.paid_amount' },
+                    sales: {
+                        $sum: {
+                            $multiply: [
+                                '$products.selling_price',
+                                '$products.quantity',
+                            ],
+                        },
+                    },
                     orders: { $sum: '$products.quantity' },
                 },
             },
@@ -296,6 +304,7 @@ export const updateCategory = catchAsyncHandler(async (req, res) => {
         description: req.body.description,
         image: req.body.image,
         parent: req.body.parent || new ObjectId('000000000000000000000000'),
+        tax_class: req.body.tax_class,
     }
 
     //3) Updated category document
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express'
-import stripe from 'stripe'
+import { ObjectId } from 'mongodb'
+import { FilterQuery, HydratedDocument } from 'mongoose'
 
 //Error Handling
 import AppError from '../error handling/AppError'
@@ -8,9 +9,62 @@ import { catchAsyncHandler } from '../error handling/errorHandlers'
 //Models & Types
 import Cart from '../models/Cart'
 import Product from '../models/Product'
-import Order, { IOrder } from '../models/Order'
+import Order, { IOrder, OrderStatus } from '../models/Order'
 import User, { IUser } from '../models/User'
 import Media from '../models/Media'
+import WebhookEvent from '../models/WebhookEvent'
+import Checkout, { ICheckout } from '../models/Checkout'
+
+//Controllers
+import {
+    commitCartReservations,
+    commitCheckoutLines,
+    holdCartReservations,
+} from './cart'
+
+//Utils & Packages
+import snapshotOrderProducts from '../utils/snapshotOrderProducts'
+import { redeemCoupon } from '../utils/coupon'
+import { convertCartSummary, summarizeCart } from '../packages/cartSummary'
+import {
+    CurrencyRate,
+    resolveCurrency,
+    toMinorUnits,
+} from '../packages/currency'
+import { withTransaction } from '../packages/transaction'
+import { claimDealUnits } from '../packages/pricing'
+import { changeOrderStatus, getInitialTimeline } from '../packages/orderStatus'
+import {
+    reconcilePendingRefunds,
+    refundCheckoutPayment,
+} from '../packages/refund'
+import {
+    getPaymentProvider,
+    getPaymentProviderByName,
+    fakeProvider,
+    getCheckoutSessionAmount,
+    CheckoutSessionInput,
+    PaymentEvent,
+    PaymentProviderName,
+    toPaymentEvent,
+} from '../packages/payment'
+import { FakeOutcome } from '../packages/payment/FakeProvider'
+import QueryModifier from '../packages/QueryModifier'
+
+/**
+ ** ==============================================================
+ ** Type [CardPayment] - Payment details of a card checkout
+ ** ==============================================================
+ */
+type CardPayment = {
+    provider: PaymentProviderName
+    checkout_session_id: string
+    checkout?: HydratedDocument<ICheckout>
+    payment_intent_id?: string
+    transaction_id?: string
+    amount_charged?: number
+    is_paid: boolean
+}
 
 /**
  ** ==============================================================
@@ -19,7 +73,9 @@ import Media from '../models/Media'
  */
 const placeMyOrder = async (
     user: IUser,
-    status: 'CASH_ON_DELIVERY' | 'STRIPE_CHECKOUT'
+    status: 'CASH_ON_DELIVERY' | 'CARD_CHECKOUT',
+    payment?: CardPayment,
+    currency?: CurrencyRate
 ) => {
     //1) If not user provided, throw err
     if (!user._id) {
@@ -29,30 +85,17 @@ const placeMyOrder = async (
         )
     }
 
-    //2) Find User cart
-    const cart = await Cart.findOne({ owner: user._id }).populate({
-        path: 'products.product',
-    })
-
-    //3) If cart is empty, throw an error
-    if (!cart || !cart.products || cart.products.length <= 0) {
-        throw new AppError(
-            'Your cart is empty. Add some products in cart before placing an order.',
-            400
-        )
-    }
-
-    //4) Get default billing address
+    //2) Get default billing address
     const billing_address = user.addresses.find(
         (address) => address.default_billing_address === true
     )
 
-    //5) Get default shipping address
+    //3) Get default shipping address
     const shipping_address = user.addresses.find(
         (address) => address.default_shipping_address === true
     )
 
-    //6) If any of default addresses are not set, throw err
+    //4) If any of default addresses are not set, throw err
     if (!billing_address || !shipping_address) {
         throw new AppError(
             'Please set a default shipping and billing address first before proceeding with checkout.',
@@ -60,75 +103,520 @@ const placeMyOrder = async (
         )
     }
 
-    //7) Calc total amount
-    const totalAmount = cart.products.reduce<number>((prev, currProd) => {
-        //=> Narrow type to product
-        if (!(currProd.product instanceof Product)) {
-            return prev
+    //5) Create order and empty cart within a transaction
+    return withTransaction(async (session) => {
+        //=> Find User cart
+        const cart = await Cart.findOne({ owner: user._id }).session(session)
+
+        //=> If cart is empty, throw an error, a card checkout is placed of what its session charged
+        const checkout = payment?.checkout
+        if (
+            !checkout &&
+            (!cart || !cart.products || cart.products.length <= 0)
+        ) {
+            throw new AppError(
+                'Your cart is empty. Add some products in cart before placing an order.',
+                400
+            )
+        }
+
+        //=> Summarize prices of the cart, a card checkout uses the summary its session was created with,
+        //=> paid card checkouts don't enforce coupon limits
+        const isEnforced = status === 'CASH_ON_DELIVERY'
+        const summary =
+            checkout?.summary ||
+            (await summarizeCart(cart as NonNullable<typeof cart>, {
+                enforce_coupon: isEnforced,
+                shipping_address,
+                session,
+            }))
+
+        //=> Get amount charged in currency of customer, card checkouts use the rate of their session,
+        //=> sessions created before checkouts were kept have it stored in cart
+        const orderCurrency =
+            checkout?.currency ||
+            currency ||
+            (cart?.checkout_currency?.code
+                ? cart.checkout_currency
+                : summary.currency)
+        const charged = convertCartSummary(summary, orderCurrency)
+
+        //=> Amount charged by provider must match the amount of checkout session
+        const isAmountMismatched =
+            !!checkout &&
+            payment?.amount_charged !== undefined &&
+            payment.amount_charged !== checkout.amount_total
+
+        //=> Snapshot products of the cart, so order won't depend on live products,
+        //=> a line is split when only some of its units are sold at deal price
+        const products = await snapshotOrderProducts(
+            summary.lines.flatMap((line) =>
+                line.segments.map((segment) => ({
+                    product: line.product,
+                    selected_variants: line.selected_variants,
+                    quantity: segment.quantity,
+                    pricing: {
+                        selling_price: segment.unit_price,
+                        deal: segment.deal,
+                    },
+                }))
+            ),
+            session
+        )
+
+        //=> Count units sold at deal price, throws if a flash sale sold out,
+        //=> paid card checkouts keep the deal price they were charged
+        await claimDealUnits(products, { enforce: isEnforced, session })
+
+        //=> Count a use of coupon, if failed, throw err
+        if (
+            summary.coupon &&
+            !(await redeemCoupon(summary.coupon._id, {
+                enforce: isEnforced,
+                session,
+            }))
+        ) {
+            throw new AppError(
+                `The coupon [${summary.coupon.code}] has reached its usage limit.`,
+                400
+            )
+        }
+
+        //=> Create order object, unpaid orders wait for payment, a mismatched charge waits for review
+        const delivery_status: OrderStatus =
+            status === 'CASH_ON_DELIVERY' || !payment?.is_paid
+                ? 'pending_payment'
+                : isAmountMismatched
+                ? 'on_hold'
+                : 'processing'
+        const orderObject: IOrder = {
+            billing: {
+                address: billing_address,
+                payment_method:
+                    status === 'CASH_ON_DELIVERY' ? 'cash_on_delivery' : 'card',
+                payment_provider:
+                    status === 'CASH_ON_DELIVERY'
+                        ? 'cash_on_delivery'
+                        : payment?.provider,
+                paid_amount: summary.grand_total,
+                discount: summary.discounts.total,
+                tax: summary.tax,
+                tax_breakdown: summary.tax_breakdown,
+                transaction_id: payment?.transaction_id,
+                payment_intent_id: payment?.payment_intent_id,
+                checkout_session_id: payment?.checkout_session_id,
+            },
+            shipping: {
+                address: shipping_address,
+                method: summary.shipping_method && {
+                    zone: summary.shipping_method.zone,
+                    service_level: summary.shipping_method.service_level,
+                    name: summary.shipping_method.name,
+                    billable_weight: summary.shipping_method.billable_weight,
+                },
+                cost: summary.shipping,
+            },
+            customer: user._id as ObjectId,
+            currency: {
+                code: orderCurrency.code,
+                rate: orderCurrency.rate,
+                decimals: orderCurrency.decimals,
+                charged_amount:
+                    checkout && payment?.amount_charged !== undefined
+                        ? payment.amount_charged /
+                          Math.pow(10, orderCurrency.decimals)
+                        : charged.grand_total,
+            },
+            coupon: summary.coupon
+                ? {
+                      _id: summary.coupon._id,
+                      code: summary.coupon.code,
+                      type: summary.coupon.type,
+                      value: summary.coupon.value,
+                  }
+                : undefined,
+            delivery_status,
+            timeline: getInitialTimeline(delivery_status, {
+                source: status === 'CASH_ON_DELIVERY' ? 'customer' : 'payment',
+                changed_by:
+                    status === 'CASH_ON_DELIVERY' ? user._id : undefined,
+                note: isAmountMismatched
+                    ? `Amount charged [${payment?.amount_charged}] differs from the amount of checkout [${checkout?.amount_total}], in cents of ${orderCurrency.code}.`
+                    : undefined,
+            }),
+            products,
+            status_changed_at: new Date(Date.now()),
+            created_at: new Date(Date.now()),
+        }
+
+        //=> Create order
+        const [DocOrder] = await Order.create([orderObject], { session })
+
+        //=> If order creation failed, throw err
+        if (!DocOrder) {
+            throw new AppError(
+                'Failed to place an order for some reason, please try again.',
+                500
+            )
+        }
+
+        //=> Turn reservations of lines ordered into sold stock, and take them out of cart
+        if (checkout) {
+            await commitCheckoutLines(cart, summary.lines, session)
+        } else {
+            await commitCartReservations(
+                cart as NonNullable<typeof cart>,
+                session
+            )
+        }
+
+        //=> Mark checkout as completed, only if it's still open, so it's never placed twice
+        if (
+            checkout &&
+            !(await Checkout.findOneAndUpdate(
+                { _id: checkout._id, status: 'open' },
+                {
+                    $set: {
+                        status: 'completed',
+                        order: DocOrder._id,
+                        amount_charged: payment?.amount_charged,
+                        payment_intent_id: payment?.payment_intent_id,
+                    },
+                },
+                { session }
+            ))
+        ) {
+            throw new AppError(
+                'This checkout is no longer open, its order was placed already.',
+                409
+            )
+        }
+
+        //=> Return newly created order document
+        return DocOrder
+    })
+}
+
+/**
+ ** ==============================================================
+ ** getCheckoutSessionExpiry - Get the expiry date of a checkout
+ ** session created right now, providers allow 30 minutes at least
+ ** ==============================================================
+ */
+const getCheckoutSessionExpiry = () => {
+    return new Date(
+        Date.now() +
+            ((process.env.CHECKOUT_SESSION_EXPIRATION || 30) as number) *
+                60 *
+                1000
+    )
+}
+
+/**
+ ** ==============================================================
+ ** isOrderPlaced - Whether order of a payment event is placed, false
+ ** if its checkout was closed without one, throws if it's not placed
+ ** yet, so the event is retried once it is
+ ** ==============================================================
+ */
+const isOrderPlaced = async (
+    event: PaymentEvent,
+    filter: FilterQuery<IOrder>
+) => {
+    //1) If order is placed, return true
+    if (await Order.exists(filter)) return true
+
+    //2) If checkout of payment was closed with no order, expired or refunded, return false
+    const DocCheckout = await Checkout.findOne(
+        event.checkout_session_id
+            ? { session_id: event.checkout_session_id }
+            : { payment_intent_id: event.payment_intent_id }
+    )
+    if (DocCheckout && DocCheckout.status !== 'open' && !DocCheckout.order) {
+        return false
+    }
+
+    //3) Else throw err, order is yet to be placed
+    throw new AppError(
+        `No order is placed yet of the payment event [${event.id}], it will be applied once it is.`,
+        404
+    )
+}
+
+/**
+ ** ==============================================================
+ ** handlePaymentEvent - Apply changes a payment event asks for
+ ** ==============================================================
+ */
+const handlePaymentEvent = async (event: PaymentEvent) => {
+    switch (event.type) {
+        //1) Checkout completed, place an order
+        case 'checkout.completed': {
+            //=> Ignore sessions which are not created by checkout of ours
+            if (!event.client_reference_id || !event.checkout_session_id) return
+
+            //=> Find user with id stored in event
+            const DocUser = await User.findById(event.client_reference_id)
+
+            //=> Throw err, if no user found
+            if (!DocUser) {
+                throw new AppError(
+                    'User does not exist, chekout session failed.',
+                    400
+                )
+            }
+
+            //=> Get charge of payment intent to store as transaction id
+            const transaction_id = event.payment_intent_id
+                ? await getPaymentProviderByName(
+                      event.provider
+                  ).getTransactionId(event.payment_intent_id)
+                : undefined
+
+            //=> Find checkout of session, if its order is placed already, return
+            const DocCheckout = await Checkout.findOne({
+                session_id: event.checkout_session_id,
+            })
+            if (DocCheckout && DocCheckout.status !== 'open') return
+
+            //=> Place my order, of what the session charged
+            try {
+                await placeMyOrder(DocUser, 'CARD_CHECKOUT', {
+                    provider: event.provider,
+                    checkout_session_id: event.checkout_session_id,
+                    checkout: DocCheckout || undefined,
+                    payment_intent_id: event.payment_intent_id,
+                    transaction_id,
+                    amount_charged: event.amount_total,
+                    is_paid: event.is_paid === true,
+                })
+            } catch (err) {
+                //=> Retry, if order may be placed on a retry, or nothing was charged to be refunded
+                if (
+                    !DocCheckout ||
+                    !event.is_paid ||
+                    !(err instanceof AppError) ||
+                    err.statusCode >= 500
+                ) {
+                    throw err
+                }
+
+                //=> Return, if checkout's order was placed meanwhile
+                const DocCheckoutNow = await Checkout.findById(DocCheckout._id)
+                if (DocCheckoutNow?.status !== 'open') return
+
+                //=> Else refund the payment, as its order can never be placed
+                await refundCheckoutPayment(
+                    DocCheckout,
+                    {
+                        payment_intent_id: event.payment_intent_id,
+                        amount_charged: event.amount_total,
+                    },
+                    err.message
+                )
+                console.log(
+                    `Refunded checkout session [${event.checkout_session_id}], its order could not be placed:\t[${err.message}]`
+                )
+            }
+            return
+        }
+
+        //2) Delayed payment of a checkout succeeded, process its order
+        case 'payment.succeeded': {
+            if (!event.checkout_session_id) return
+            const filter = {
+                'billing.checkout_session_id': event.checkout_session_id,
+            }
+            if (!(await isOrderPlaced(event, filter))) return
+
+            //=> Store charge of payment intent as transaction id
+            if (event.payment_intent_id) {
+                await Order.updateOne(filter, {
+                    $set: {
+                        'billing.transaction_id':
+                            await getPaymentProviderByName(
+                                event.provider
+                            ).getTransactionId(event.payment_intent_id),
+                    },
+                })
+            }
+            await changeOrderStatus(filter, 'processing', {
+                source: 'payment',
+                from: ['pending_payment'],
+            })
+            return
         }
 
-        //=> Calc total
-        const total =
-            (currProd.product.selling_price
-                ? currProd.product.selling_price
-                : currProd.product.price) * currProd.quantity
-
-        //=> Accumulate total
-        return (prev += total)
-    }, 0)
-
-    //8) Create order object
-    const orderObject: IOrder = {
-        billing: {
-            address: billing_address,
-            payment_method:
-                status === 'CASH_ON_DELIVERY' ? 'cash_on_delivery' : 'card',
-            paid_amount: totalAmount,
+        //3) Delayed payment of a checkout failed, cancel its order
+        case 'payment.failed': {
+            if (!event.checkout_session_id) return
+            const filter = {
+                'billing.checkout_session_id': event.checkout_session_id,
+            }
+            if (!(await isOrderPlaced(event, filter))) return
+            await changeOrderStatus(filter, 'canceled', {
+                source: 'payment',
+                from: ['pending_payment', 'on_hold'],
+                note: 'Payment of the order failed.',
+            })
+            return
+        }
+
+        //4) Checkout expired without payment, close it, its reservations are released once they expire
+        case 'checkout.expired': {
+            if (!event.checkout_session_id) return
+            await Checkout.updateOne(
+                { session_id: event.checkout_session_id, status: 'open' },
+                { $set: { status: 'expired' } }
+            )
+            return
+        }
+
+        //5) Charge refunded, complete refunds left pending, and mark order as refunded once fully refunded
+        case 'charge.refunded': {
+            if (!event.payment_intent_id) return
+            const filter = {
+                'billing.payment_intent_id': event.payment_intent_id,
+            }
+            if (!(await isOrderPlaced(event, filter))) return
+
+            //=> Complete refunds of order left pending, though provider made them
+            await reconcilePendingRefunds(filter)
+
+            //=> Move order refunded in full
+            if (!event.is_fully_refunded) return
+            await changeOrderStatus(filter, 'refunded', {
+                source: 'payment',
+                from: ['processing', 'pending_payment', 'on_hold', 'completed'],
+            })
+            return
+        }
+
+        //6) Charge disputed, put order on hold until dispute is resolved
+        case 'charge.disputed': {
+            if (!event.payment_intent_id) return
+            const filter = {
+                'billing.payment_intent_id': event.payment_intent_id,
+            }
+            if (!(await isOrderPlaced(event, filter))) return
+            await changeOrderStatus(filter, 'on_hold', {
+                source: 'payment',
+                from: ['processing', 'pending_payment', 'completed'],
+            })
+            return
+        }
+    }
+}
+
+/**
+ ** ==============================================================
+ ** getStaleProcessingFilter - Filter of events left processing
+ ** longer than the timeout, as their process must have crashed
+ ** ==============================================================
+ */
+const getStaleProcessingFilter = () => ({
+    status: 'processing',
+    $or: [
+        { processing_started_at: { $exists: false } },
+        {
+            processing_started_at: {
+                $lte: new Date(
+                    Date.now() -
+                        ((process.env.WEBHOOK_PROCESSING_TIMEOUT ||
+                            5) as number) *
+                            60 *
+                            1000
+                ),
+            },
+        },
+    ],
+})
+
+/**
+ ** ==============================================================
+ ** processWebhookEvent - Process an event recorded in the ledger,
+ ** returns null when it's processed already or being processed
+ ** ==============================================================
+ */
+const processWebhookEvent = async (event_id: string) => {
+    //1) Claim event, so it's never processed twice at the same time, an event stuck processing is taken back
+    const DocWebhookEvent = await WebhookEvent.findOneAndUpdate(
+        {
+            event_id,
+            $or: [
+                { status: { $in: ['pending', 'failed'] } },
+                getStaleProcessingFilter(),
+            ],
         },
-        shipping: {
-            address: shipping_address,
+        {
+            $set: {
+                status: 'processing',
+                processing_started_at: new Date(Date.now()),
+            },
+            $inc: { attempts: 1 },
         },
-        customer: user._id,
-        delivery_status:
-            status === 'CASH_ON_DELIVERY' ? 'pending_payment' : 'processing',
-        products: cart.products,
-        status_changed_at: new Date(Date.now()),
-        created_at: new Date(Date.now()),
+        { new: true }
+    )
+
+    //2) If processed already or being processed, return
+    if (!DocWebhookEvent) return null
+
+    //3) Handle event, if failed, mark it as failed and throw err
+    try {
+        await handlePaymentEvent(toPaymentEvent(DocWebhookEvent.payload))
+    } catch (err) {
+        DocWebhookEvent.status = 'failed'
+        DocWebhookEvent.last_error = (err as Error).message
+        await DocWebhookEvent.save()
+        throw err
     }
 
-    //9) Create order
-    const DocOrder = await Order.create(orderObject)
+    //4) Mark event as processed
+    DocWebhookEvent.status = 'processed'
+    DocWebhookEvent.last_error = undefined
+    DocWebhookEvent.processed_at = new Date(Date.now())
+    await DocWebhookEvent.save()
 
-    //10) If order creation failed, throw err
-    if (!DocOrder) {
-        throw new AppError(
-            'Failed to place an order for some reason, please try again.',
-            500
-        )
-    }
+    //5) Return processed event
+    return DocWebhookEvent
+}
 
-    //11) Empty cart
-    cart.products = []
-    await cart.save()
+/**
+ ** ==============================================================
+ ** receivePaymentEvent - Record event in the ledger, if it's not
+ ** recorded already, and process it
+ ** ==============================================================
+ */
+const receivePaymentEvent = async (event: PaymentEvent) => {
+    //1) Record event in the ledger, if it's not recorded already
+    await WebhookEvent.findOneAndUpdate(
+        { event_id: event.id },
+        {
+            $setOnInsert: {
+                event_id: event.id,
+                type: event.provider_type,
+                payload: event,
+                status: 'pending',
+                attempts: 0,
+                created_at: new Date(Date.now()),
+            },
+        },
+        { upsert: true, new: true, runValidators: true }
+    )
 
-    //12 return newly created order document
-    return DocOrder
+    //2) Process event
+    return processWebhookEvent(event.id)
 }
 
 /**
  ** ==============================================================
- ** createCheckoutSession - Create stripe checkout session
+ ** createCheckoutSession - Create card checkout session
  ** ==============================================================
  */
 export const createCheckoutSession = catchAsyncHandler(
     async (req: Request, res: Response) => {
-        //1) Throw error if stripe secret key is not setup
-        if (!process.env.STRIPE_SECRET_KEY) {
-            console.log(
-                'Please setup stripe secret key in a .env config file, "STRIPE_SECRET_KEY" is missing.'
-            )
-            throw new Error()
-        }
+        //1) Get provider of card payments
+        const paymentProvider = getPaymentProvider('card')
 
         //2) User must be authenticated to create a checkout session
         if (!req.user || !req.user._id) {
@@ -139,13 +627,14 @@ export const createCheckoutSession = catchAsyncHandler(
         }
 
         //3) Don't allow checkout if default addresses is not set
+        const shipping_address = req.user.addresses.find(
+            (address) => address.default_shipping_address === true
+        )
         if (
             !req.user.addresses.some(
                 (address) => address.default_billing_address === true
             ) ||
-            !req.user.addresses.some(
-                (address) => address.default_shipping_address === true
-            )
+            !shipping_address
         ) {
             throw new AppError(
                 'Please set a default shipping and billing address first before proceeding with checkout.',
@@ -153,12 +642,7 @@ export const createCheckoutSession = catchAsyncHandler(
             )
         }
 
-        //4) Init stripe
-        const stripeAPI = new stripe(process.env.STRIPE_SECRET_KEY, {
-            apiVersion: '2022-11-15',
-        })
-
-        //5) Find User cart
+        //4) Find User cart
         const cart = await Cart.findOne({ owner: req.user._id }).populate({
             path: 'products.product',
             model: 'Product',
@@ -170,7 +654,7 @@ export const createCheckoutSession = catchAsyncHandler(
             ],
         })
 
-        //6) If cart is empty, throw an error
+        //5) If cart is empty, throw an error
         if (!cart || !cart.products || cart.products.length <= 0) {
             throw new AppError(
                 'Your cart is empty. Add some products in cart before placing an order.',
@@ -178,61 +662,96 @@ export const createCheckoutSession = catchAsyncHandler(
             )
         }
 
-        //7) Success and Cancel URLS
+        //6) Resolve currency asked, else the one of shipping country
+        const currency = await resolveCurrency(
+            req.query.currency || req.body.currency,
+            shipping_address.country
+        )
+
+        //7) Summarize prices of the cart, and convert them in currency, same pipeline used to place the order
+        const baseSummary = await summarizeCart(cart, {
+            enforce_coupon: true,
+            shipping_address,
+        })
+        const summary = convertCartSummary(baseSummary, currency)
+
+        //8) Hold reservations of cart until session expires, so stock paid for is never released
+        const expires_at = getCheckoutSessionExpiry()
+        await holdCartReservations(cart._id, expires_at)
+
+        //9) Success and Cancel URLS
         const success_url = req.headers.origin + '/order_success'
         const cancel_url = req.headers.origin + '/cart'
 
-        //8) Create stripe checkiut session
-        const checkout_session = await stripeAPI.checkout.sessions.create({
-            payment_method_types: ['card'],
+        //10) Get input of checkout session
+        const sessionInput: CheckoutSessionInput = {
             success_url,
             cancel_url,
+            expires_at,
             customer_email: req.user.email,
             client_reference_id: req.user._id.toString(),
-            mode: 'payment',
-            line_items: cart.products.map((prod) => ({
-                quantity: prod.quantity,
-                price_data: {
-                    currency: 'eur',
-                    unit_amount_decimal:
+            currency: currency.code,
+            line_items: cart.products.flatMap((prod, ind) =>
+                summary.lines[ind].segments.map((segment) => ({
+                    quantity: segment.quantity,
+                    unit_amount: toMinorUnits(segment.unit_price, currency),
+                    name:
                         prod.product instanceof Product
-                            ? (
-                                  (prod.product.selling_price ||
-                                      prod.product.price) * 100
-                              ).toString()
-                            : '0.0',
-                    product_data: {
-                        name:
-                            prod.product instanceof Product
-                                ? prod.product.title
-                                : '',
-                        description:
-                            prod.product instanceof Product
-                                ? prod.product.description.length > 100
-                                    ? prod.product.description.slice(0, 100) +
-                                      '...'
-                                    : prod.product.description
-                                : '',
-                        images: [
-                            prod.product instanceof Product &&
-                            prod.product?.image instanceof Media
-                                ? `https://bazaar.loca.lt/${prod.product.image.url}`
-                                : 'https://joadre.com/wp-content/uploads/2019/02/no-image.jpg',
-                        ],
-                    },
-                },
+                            ? segment.deal
+                                ? `${prod.product.title} (${segment.deal.title})`
+                                : prod.product.title
+                            : '',
+                    description:
+                        prod.product instanceof Product
+                            ? prod.product.description.length > 100
+                                ? prod.product.description.slice(0, 100) + '...'
+                                : prod.product.description
+                            : '',
+                    image_url:
+                        prod.product instanceof Product &&
+                        prod.product?.image instanceof Media
+                            ? `https://bazaar.loca.lt/${prod.product.image.url}`
+                            : 'https://joadre.com/wp-content/uploads/2019/02/no-image.jpg',
+                }))
+            ),
+            discount:
+                summary.coupon && summary.discounts.total > 0
+                    ? {
+                          name: summary.coupon.code,
+                          amount: toMinorUnits(
+                              summary.discounts.total,
+                              currency
+                          ),
+                      }
+                    : undefined,
+            shipping: summary.shipping_method && {
+                name: summary.shipping_method.name,
+                amount: toMinorUnits(summary.shipping, currency),
+            },
+            taxes: summary.tax_breakdown.map((tax) => ({
+                name: `${tax.name} (${tax.rate}%)`,
+                amount: toMinorUnits(tax.amount, currency),
+                inclusive: tax.price_mode === 'inclusive',
             })),
-        })
-
-        //9) If no checkout session, throw err
-        if (!checkout_session || !checkout_session.url) {
-            throw new AppError(
-                'Failed to create a checkout sesison, please try again.',
-                500
-            )
         }
 
-        //10) If in NodeEnv in dev mode, send a response, else redirect to url
+        //11) Create checkout session via payment provider
+        const checkout_session = await paymentProvider.createCheckoutSession(
+            sessionInput
+        )
+
+        //12) Keep summary of cart with session, so order is placed of exactly what it charges
+        await Checkout.create({
+            session_id: checkout_session.id,
+            provider: paymentProvider.name,
+            customer: req.user._id,
+            summary: baseSummary,
+            currency,
+            amount_total: getCheckoutSessionAmount(sessionInput),
+            expires_at,
+        })
+
+        //13) If in NodeEnv in dev mode, send a response, else redirect to url
         if (process.env.NODE_ENVIRONMENT === 'development') {
             res.status(200).json({
                 status: 'success',
@@ -255,81 +774,212 @@ export const createCheckoutSession = catchAsyncHandler(
  */
 export const checkoutSuccessWithoutPay = catchAsyncHandler(
     async (req: Request, res: Response) => {
-        //1) Place order
-        const DocOrder = await placeMyOrder(req.user, 'CASH_ON_DELIVERY')
+        //1) Resolve currency asked, else the one of shipping country
+        const currency = await resolveCurrency(
+            req.query.currency,
+            req.user.addresses.find(
+                (address) => address.default_shipping_address === true
+            )?.country
+        )
+
+        //2) Place order
+        const DocOrder = await placeMyOrder(
+            req.user,
+            'CASH_ON_DELIVERY',
+            undefined,
+            currency
+        )
 
-        //2) Send a response
+        //3) Send a response
         res.json({ status: 'success', data: DocOrder })
     }
 )
 
 /**
  ** ==============================================================
- ** checkoutSuccessStripeWebhook - Capture stripe session complete
+ ** checkoutSuccessStripeWebhook - Capture events of card payments
  ** ==============================================================
  */
 export const checkoutSuccessStripeWebhook = catchAsyncHandler(
     async (req: Request, res: Response) => {
-        //1) Throw error if stripe secret key or webhook secret is not setup
-        if (
-            !process.env.STRIPE_SECRET_KEY ||
-            !process.env.STRIPE_WEBHOOK_SECRET
-        ) {
-            console.log(
-                'Please setup "STRIPE_SECRET_KEY" and "STRIPE_WEBHOOK_SECRET" in your .env config file.'
-            )
-            throw new Error()
+        //1) Get provider of card payments
+        const paymentProvider = getPaymentProvider('card')
+
+        //2) Get signature from headers
+        const signature = req.headers[paymentProvider.signature_header]
+
+        //3) If signature not found, throw err
+        if (!signature || typeof signature !== 'string') {
+            console.log('Signatue is missing from req headers.')
+            throw new AppError('Signatue is missing from req headers.', 400)
         }
 
-        //2) Init stripe
-        const stripeAPI = new stripe(process.env.STRIPE_SECRET_KEY, {
-            apiVersion: '2022-11-15',
+        //4) Verify signature and create event
+        const event = paymentProvider.constructEvent(req.body, signature)
+
+        //5) Record event in the ledger and process it, a failed event throws err, so it's retried
+        const DocWebhookEvent = await receivePaymentEvent(event)
+
+        //6) Send a respose
+        res.status(200).json({
+            status: 'success',
+            received: 'true',
+            duplicate: !DocWebhookEvent,
         })
+    }
+)
+
+/**
+ ** ==============================================================
+ ** simulateFakePayment - Simulate outcome of a fake checkout
+ ** session, only when card payments go through fake provider
+ ** ==============================================================
+ */
+export const simulateFakePayment = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Only available with fake provider
+        if (getPaymentProvider('card') !== fakeProvider) {
+            throw new AppError(
+                'Fake payments are only available when "PAYMENT_PROVIDER" is set to "fake".',
+                404
+            )
+        }
 
-        //3) Get stripe signature from headers
-        const signature = req.headers['stripe-signature']
+        //2) Outcome must be one which can be simulated
+        const outcomes: Array<FakeOutcome> = [
+            'success',
+            'pending',
+            'settle',
+            'failure',
+            'expire',
+            'refund',
+            'dispute',
+        ]
+        const outcome = req.body.outcome as FakeOutcome
+        if (!outcomes.includes(outcome)) {
+            throw new AppError(
+                `Please provide an "outcome" of one of these values: ${outcomes.join(
+                    ', '
+                )}.`,
+                400
+            )
+        }
 
-        //4) If signature not found, throw err
-        if (!signature) {
-            console.log('Signatue is missing from req headers.')
-            throw new AppError('Signatue is missing from req headers.', 400)
+        //3) Simulate a signed event, just like the one sent to webhook
+        const { body, signature } = fakeProvider.simulate(
+            req.params.id,
+            outcome
+        )
+        const event = fakeProvider.constructEvent(body, signature)
+
+        //4) Session must belong to current user
+        if (event.client_reference_id !== req.user._id?.toString()) {
+            throw new AppError(
+                `No fake checkout session found with the id [${req.params.id}].`,
+                404
+            )
         }
 
-        //5) Create event
-        const event = stripeAPI.webhooks.constructEvent(
-            req.body,
-            signature,
-            process.env.STRIPE_WEBHOOK_SECRET
+        //5) Record event in the ledger and process it
+        const DocWebhookEvent = await receivePaymentEvent(event)
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocWebhookEvent,
+        })
+    }
+)
+
+/**
+ ** ==============================================================
+ ** getManyWebhookEvent - Get one or more webhook event
+ ** ==============================================================
+ */
+export const getManyWebhookEvent = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = WebhookEvent.find()
+
+        //2) Apply query modifiers to query
+        const queryModifier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query and retrive the matching docs found
+        const DocsWebhookEvent = await queryModifier.query.exec()
+
+        //4) Create new query and apply modifier just filter only to count documents
+        const DocsCount = await new QueryModifier<typeof query>(
+            WebhookEvent.find(),
+            req.query
         )
+            .filter()
+            .query.count()
+            .exec()
 
-        //6 If checkout was completed, place an order
-        if (event.type === 'checkout.session.completed') {
-            //=> Webhook Event
-            const eventObj = event.data.object as {
-                client_reference_id: string
-            }
+        //5) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsWebhookEvent.length,
+            count: DocsCount,
+            data: DocsWebhookEvent,
+        })
+    }
+)
 
-            event.data.object as stripe.Card
+/**
+ ** ==============================================================
+ ** replayWebhookEvent - Re-run a failed webhook event
+ ** ==============================================================
+ */
+export const replayWebhookEvent = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of webhook event to be replayed
+        const id = req.params.id
 
-            //=> Find user with id stored in event
-            const DocUser = await User.findById(eventObj.client_reference_id)
+        //2) Find webhook event
+        const DocWebhookEvent = await WebhookEvent.findById(id)
 
-            //=> Throw err, if no user found
-            if (!DocUser) {
-                throw new AppError(
-                    'User does not exist, chekout session failed.',
-                    400
-                )
-            }
+        //3) If no doc found, throw err
+        if (!DocWebhookEvent) {
+            throw new AppError(
+                'No webhook event document found to be replayed with the id provided.',
+                404
+            )
+        }
 
-            //=> Place my order
-            placeMyOrder(DocUser, 'STRIPE_CHECKOUT')
+        //4) Only failed events, or ones stuck processing, can be replayed
+        const isStuck = await WebhookEvent.exists({
+            _id: DocWebhookEvent._id,
+            ...getStaleProcessingFilter(),
+        })
+        if (DocWebhookEvent.status !== 'failed' && !isStuck) {
+            throw new AppError(
+                `Only a failed webhook event, or one stuck processing, can be replayed, this event is [${DocWebhookEvent.status}].`,
+                400
+            )
         }
 
-        //7 Send a respose
+        //5) Process event again
+        const DocWebhookEventProcessed = await processWebhookEvent(
+            DocWebhookEvent.event_id
+        )
+
+        //6) If it was claimed by another process meanwhile, throw err
+        if (!DocWebhookEventProcessed) {
+            throw new AppError(
+                'This webhook event is being processed already, please try again later.',
+                409
+            )
+        }
+
+        //7) Send a response
         res.status(200).json({
             status: 'success',
-            received: 'true',
+            data: DocWebhookEventProcessed,
         })
     }
 )
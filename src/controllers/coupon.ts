@@ -0,0 +1,208 @@
+import { Request, Response } from 'express'
+
+//Models & Types
+import Coupon, {
+    COUPON_VALUE_MESSAGE,
+    ICoupon,
+    isValidCouponValue,
+} from '../models/Coupon'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+
+/**
+ ** ====================================
+ ** createCoupon = Create a single coupon
+ ** ====================================
+ */
+export const createCoupon = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get fields from req body
+        const couponToBeCreated: ICoupon = {
+            code: req.body.code,
+            description: req.body.description,
+            type: req.body.type,
+            value: req.body.value,
+            min_subtotal: req.body.min_subtotal,
+            usage_limit: req.body.usage_limit,
+            usage_limit_per_user: req.body.usage_limit_per_user,
+            categories: req.body.categories,
+            products: req.body.products,
+            expires_in: req.body.expires_in,
+        }
+
+        //2) Create coupon
+        const DocCoupon = await Coupon.create(couponToBeCreated)
+
+        //3) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocCoupon,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getCoupon = Get a single coupon
+ ** ====================================
+ */
+export const getCoupon = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a coupon to be retrieved
+        const id = req.params.id
+
+        //2) Get query
+        const query = Coupon.findById(id)
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Exec query to retrieve coupon doc match found
+        const DocCoupon = await QueryModfier.query.exec()
+
+        //5) If no document found, throw err
+        if (!DocCoupon) {
+            throw new AppError(
+                'No coupon document found to be retrieve with the id provided.',
+                404
+            )
+        }
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCoupon,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getManyCoupon = Get one or more coupon
+ ** ====================================
+ */
+export const getManyCoupon = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = Coupon.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve coupon docs match found
+        const DocsCoupon = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsCoupon.length,
+            data: DocsCoupon,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** updateCoupon = Update a single coupon
+ ** ====================================
+ */
+export const updateCoupon = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of coupon to be updated
+        const id = req.params.id
+
+        //2) Get fields from req body
+        const couponToBeUpdated: Partial<ICoupon> = {
+            code: req.body.code,
+            description: req.body.description,
+            type: req.body.type,
+            value: req.body.value,
+            min_subtotal: req.body.min_subtotal,
+            usage_limit: req.body.usage_limit,
+            usage_limit_per_user: req.body.usage_limit_per_user,
+            categories: req.body.categories,
+            products: req.body.products,
+            expires_in: req.body.expires_in,
+        }
+
+        //3) Find coupon, if not exist, throw err
+        const DocCouponStored = await Coupon.findById(id)
+        if (!DocCouponStored) {
+            throw new AppError(
+                'No coupon document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //4) Value must suit type of coupon, the one stored unless it's changed as well
+        if (
+            (couponToBeUpdated.type !== undefined ||
+                couponToBeUpdated.value !== undefined) &&
+            !isValidCouponValue(
+                couponToBeUpdated.type || DocCouponStored.type,
+                Number(couponToBeUpdated.value ?? DocCouponStored.value)
+            )
+        ) {
+            throw new AppError(COUPON_VALUE_MESSAGE, 400)
+        }
+
+        //5) Update coupon
+        const DocCoupon = await Coupon.findByIdAndUpdate(
+            id,
+            couponToBeUpdated,
+            { new: true, runValidators: true }
+        )
+
+        //6) If no coupon document found, throw err
+        if (!DocCoupon) {
+            throw new AppError(
+                'No coupon document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //7) Return a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCoupon,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteCoupon = Delete a single coupon
+ ** ====================================
+ */
+export const deleteCoupon = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a coupon to be deleted
+        const id = req.params.id
+
+        //2) Delete coupon
+        const DelResults = await Coupon.deleteOne({ _id: id })
+
+        //3) If no document found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No coupon found to be deleted with the id provided.',
+                404
+            )
+        }
+
+        //4) Send a response
+        res.status(204).json()
+    }
+)
@@ -0,0 +1,181 @@
+import { Request, Response } from 'express'
+
+//Models & Types
+import Currency, { ICurrency } from '../models/Currency'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+import { getBaseCurrency } from '../packages/currency'
+
+/**
+ ** ====================================
+ ** createCurrency = Create a single currency
+ ** ====================================
+ */
+export const createCurrency = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get fields from req body
+        const currencyToBeCreated: ICurrency = {
+            code: req.body.code,
+            name: req.body.name,
+            symbol: req.body.symbol,
+            rate: req.body.rate,
+            decimals: req.body.decimals,
+            countries: req.body.countries,
+            rate_updated_at:
+                req.body.rate !== undefined ? new Date() : undefined,
+        }
+
+        //2) Create currency
+        const DocCurrency = await Currency.create(currencyToBeCreated)
+
+        //3) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocCurrency,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getCurrency = Get a single currency
+ ** ====================================
+ */
+export const getCurrency = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a currency to be retrieved
+        const id = req.params.id
+
+        //2) Get query
+        const query = Currency.findById(id)
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Exec query to retrieve currency doc match found
+        const DocCurrency = await QueryModfier.query.exec()
+
+        //5) If no document found, throw err
+        if (!DocCurrency) {
+            throw new AppError(
+                'No currency document found to be retrieve with the id provided.',
+                404
+            )
+        }
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCurrency,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getManyCurrency = Get one or more currency
+ ** ====================================
+ */
+export const getManyCurrency = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = Currency.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve currency docs match found
+        const DocsCurrency = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsCurrency.length,
+            base_currency: getBaseCurrency(),
+            data: DocsCurrency,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** updateCurrency = Update a single currency
+ ** ====================================
+ */
+export const updateCurrency = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of currency to be updated
+        const id = req.params.id
+
+        //2) Get fields from req body
+        const currencyToBeUpdated: Partial<ICurrency> = {
+            code: req.body.code,
+            name: req.body.name,
+            symbol: req.body.symbol,
+            rate: req.body.rate,
+            decimals: req.body.decimals,
+            countries: req.body.countries,
+            rate_updated_at:
+                req.body.rate !== undefined ? new Date() : undefined,
+        }
+
+        //3) Update currency
+        const DocCurrency = await Currency.findByIdAndUpdate(
+            id,
+            currencyToBeUpdated,
+            { new: true, runValidators: true }
+        )
+
+        //4) If no currency document found, throw err
+        if (!DocCurrency) {
+            throw new AppError(
+                'No currency document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //5) Return a response
+        res.status(200).json({
+            status: 'success',
+            data: DocCurrency,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteCurrency = Delete a single currency
+ ** ====================================
+ */
+export const deleteCurrency = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a currency to be deleted
+        const id = req.params.id
+
+        //2) Delete currency
+        const DelResults = await Currency.deleteOne({ _id: id })
+
+        //3) If no document found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No currency found to be deleted with the id provided.',
+                404
+            )
+        }
+
+        //4) Send a response
+        res.status(204).json()
+    }
+)
@@ -1,7 +1,11 @@
 import { Request, Response } from 'express'
 
 //Models & Types
-import Deal, { IDeal } from '../models/Deal'
+import Deal, {
+    DEAL_DISCOUNT_MESSAGE,
+    IDeal,
+    isValidDealDiscount,
+} from '../models/Deal'
 import Media from '../models/Media'
 
 //Error Handler
@@ -12,6 +16,75 @@ import AppError from '../error handling/AppError'
 import makeUrlComplete from '../utils/makeUrlComplete'
 import QueryModifier from '../packages/QueryModifier'
 import { isToPopulate } from '../utils/isToPopulate'
+import { appEvents } from '../packages/events'
+
+/**
+ ** ====================================
+ ** validateDealSchedule = Validate dates
+ ** of a deal, and that it doesn't overlap
+ ** other deals on any of its products
+ ** ====================================
+ */
+const validateDealSchedule = async (
+    deal: Pick<IDeal, 'products' | 'starts_from' | 'expires_in'>,
+    excludeId?: string
+) => {
+    //1) Get dates of deal
+    const starts_from = new Date(deal.starts_from)
+    const expires_in = new Date(deal.expires_in)
+
+    //2) Ending date must be after starting date
+    if (
+        isNaN(starts_from.getTime()) ||
+        isNaN(expires_in.getTime()) ||
+        expires_in <= starts_from
+    ) {
+        throw new AppError(
+            'A deal must have a valid starting date and an ending date after it.',
+            400
+        )
+    }
+
+    //3) Find another deal on any of products within the same period
+    const DocDealOverlapping = await Deal.findOne({
+        _id: { $ne: excludeId },
+        products: { $in: deal.products || [] },
+        starts_from: { $lt: expires_in },
+        expires_in: { $gt: starts_from },
+    })
+
+    //4) If a deal overlaps, throw err
+    if (DocDealOverlapping) {
+        throw new AppError(
+            `The deal overlaps with the deal [${DocDealOverlapping.title}] on some of its products, a product can only be in one deal at a time.`,
+            400
+        )
+    }
+}
+
+/**
+ ** ====================================
+ ** getStateCondition = Get condition of
+ ** deals in the state provided at a time
+ ** ====================================
+ */
+const getStateCondition = (state: unknown, now: Date) => {
+    switch (state) {
+        case undefined:
+            return {}
+        case 'active':
+            return { starts_from: { $lte: now }, expires_in: { $gt: now } }
+        case 'upcoming':
+            return { starts_from: { $gt: now } }
+        case 'expired':
+            return { expires_in: { $lte: now } }
+        default:
+            throw new AppError(
+                'Please provide a "state" of one of these values: "active", "upcoming" or "expired".',
+                400
+            )
+    }
+}
 
 /**
  ** ====================================
@@ -25,25 +98,31 @@ export const createDeal = catchAsyncHandler(
             title: req.body.title,
             products: req.body.products,
             image: req.body.image,
+            discount: req.body.discount,
+            max_quantity_per_customer: req.body.max_quantity_per_customer,
+            allocated_quantity: req.body.allocated_quantity,
             starts_from: req.body.starts_from,
             expires_in: req.body.expires_in,
         }
 
-        //2) Create deal
+        //2) Validate dates of deal, and that it doesn't overlap other deals
+        await validateDealSchedule(dealToBeCreated)
+
+        //3) Create deal
         const DocDeal = await Deal.create(dealToBeCreated)
 
-        //3) Populate fields
+        //4) Populate fields
         await DocDeal.populate({
             path: 'image products',
             select: { _id: 0, url: 1, title: 1 },
         })
 
-        //4) Make url complete for image
+        //5) Make url complete for image
         if (DocDeal?.image instanceof Media) {
             DocDeal.image.url = makeUrlComplete(DocDeal.image.url, req)
         }
 
-        //5) Send a response
+        //6) Send a response
         res.status(201).json({
             status: 'success',
             data: DocDeal,
@@ -115,8 +194,10 @@ export const getDeal = catchAsyncHandler(
  */
 export const getManyDeal = catchAsyncHandler(
     async (req: Request, res: Response) => {
-        //1) Get query
-        const query = Deal.find()
+        //1) Get query of deals in the state provided, state is not a field to be filtered
+        const { state, ...queryStr } = req.query
+        const now = new Date()
+        const query = Deal.find(getStateCondition(state, now))
 
         //2) Populate fields when it's okay to do so
         if (isToPopulate('image', req)) {
@@ -133,7 +214,7 @@ export const getManyDeal = catchAsyncHandler(
         }
 
         //3) Apply query modifiers to query
-        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+        const QueryModfier = new QueryModifier<typeof query>(query, queryStr)
             .filter()
             .sort()
             .select()
@@ -160,10 +241,11 @@ export const getManyDeal = catchAsyncHandler(
             return deal
         })
 
-        //7) Send a response
+        //7) Send a response, with time of server for countdowns
         res.status(200).json({
             status: 'success',
             results: transformedDocsDeal.length,
+            server_time: now,
             data: transformedDocsDeal,
         })
     }
@@ -184,19 +266,92 @@ export const updateDeal = catchAsyncHandler(
             title: req.body.title,
             products: req.body.products,
             image: req.body.image,
+            discount: req.body.discount,
+            max_quantity_per_customer: req.body.max_quantity_per_customer,
+            allocated_quantity: req.body.allocated_quantity,
             starts_from: req.body.starts_from,
             expires_in: req.body.expires_in,
         }
 
-        //3) Update deal
+        //3) Find deal to be updated
+        const DocDealCurrent = await Deal.findById(id)
+
+        //4) If no deal document found, throw err
+        if (!DocDealCurrent) {
+            throw new AppError(
+                'No deal document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //5) Discount replaces the one stored, so it must have a valid type and a value suiting it
+        if (dealToBeUpdated.discount !== undefined) {
+            const { type, value } = dealToBeUpdated.discount || {}
+            if (type !== 'percentage' && type !== 'fixed') {
+                throw new AppError(
+                    'Must provide discount type of one of these values: "percentage" or "fixed".',
+                    400
+                )
+            }
+            if (!isValidDealDiscount(type, Number(value))) {
+                throw new AppError(DEAL_DISCOUNT_MESSAGE, 400)
+            }
+        }
+
+        //6) Quantities of deal must be whole numbers of one or more, and allocation must not be below units sold already
+        const { max_quantity_per_customer, allocated_quantity } =
+            dealToBeUpdated
+        for (const [name, quantity] of [
+            ['Maximum quantity per customer', max_quantity_per_customer],
+            ['Allocated quantity', allocated_quantity],
+        ] as const) {
+            if (
+                quantity != null &&
+                (!Number.isInteger(Number(quantity)) || Number(quantity) < 1)
+            ) {
+                throw new AppError(
+                    `${name} must be a whole number of one or more.`,
+                    400
+                )
+            }
+        }
+        if (
+            allocated_quantity != null &&
+            Number(allocated_quantity) < (DocDealCurrent.units_sold || 0)
+        ) {
+            throw new AppError(
+                `Allocated quantity can't be less than the ${DocDealCurrent.units_sold} units sold already.`,
+                400
+            )
+        }
+
+        //7) Validate dates of deal, and that it doesn't overlap other deals
+        await validateDealSchedule(
+            {
+                products: dealToBeUpdated.products || DocDealCurrent.products,
+                starts_from:
+                    dealToBeUpdated.starts_from || DocDealCurrent.starts_from,
+                expires_in:
+                    dealToBeUpdated.expires_in || DocDealCurrent.expires_in,
+            },
+            id
+        )
+
+        //8) If dates changed, deal must be started or ended again by scheduler
+        if (dealToBeUpdated.starts_from || dealToBeUpdated.expires_in) {
+            dealToBeUpdated.status = 'scheduled'
+        }
+
+        //9) Update deal
         const DocDeal = await Deal.findByIdAndUpdate(id, dealToBeUpdated, {
             new: true,
+            runValidators: true,
         }).populate({
             path: 'image products',
             select: { _id: 0, url: 1, title: 1 },
         })
 
-        //4) If no deal document found, throw err
+        //10) If no deal document found, throw err
         if (!DocDeal) {
             throw new AppError(
                 'No deal document found to be update with the id provided.',
@@ -204,12 +359,12 @@ export const updateDeal = catchAsyncHandler(
             )
         }
 
-        //5) Make url complete for image
+        //11) Make url complete for image
         if (DocDeal?.image instanceof Media) {
             DocDeal.image.url = makeUrlComplete(DocDeal.image.url, req)
         }
 
-        //6) Return a response
+        //12) Return a response
         res.status(200).json({
             status: 'sucess',
             data: DocDeal,
@@ -242,3 +397,57 @@ export const deleteDeal = catchAsyncHandler(
         res.status(204).json()
     }
 )
+
+/**
+ ** ====================================
+ ** runDealLifecycle = Start deals whose
+ ** starting date has come and end the
+ ** expired ones, emitting an event of
+ ** each, returns the number of changes
+ ** ====================================
+ */
+export const runDealLifecycle = async (now: Date = new Date()) => {
+    //1) Number of deals started or ended
+    let changes = 0
+
+    //2) Start deals one by one, so each is started and emitted only once, deals created before statuses have none
+    for (;;) {
+        const DocDeal = await Deal.findOneAndUpdate(
+            {
+                status: { $in: ['scheduled', null] },
+                starts_from: { $lte: now },
+                expires_in: { $gt: now },
+            },
+            { status: 'active' },
+            { new: true }
+        )
+        if (!DocDeal) break
+
+        appEvents.emit('deal-started', {
+            _id: DocDeal._id,
+            title: DocDeal.title,
+            expires_in: DocDeal.expires_in,
+        })
+        changes++
+    }
+
+    //3) End expired deals one by one, so each is ended and emitted only once
+    for (;;) {
+        const DocDeal = await Deal.findOneAndUpdate(
+            { status: { $ne: 'ended' }, expires_in: { $lte: now } },
+            { status: 'ended' },
+            { new: true }
+        )
+        if (!DocDeal) break
+
+        appEvents.emit('deal-ended', {
+            _id: DocDeal._id,
+            title: DocDeal.title,
+            expires_in: DocDeal.expires_in,
+        })
+        changes++
+    }
+
+    //4) Return number of changes
+    return changes
+}
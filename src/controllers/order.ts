@@ -1,18 +1,38 @@
 import { NextFunction, Request, Response } from 'express'
+import { UpdateQuery } from 'mongoose'
 
 //Error Handling
 import AppError from '../error handling/AppError'
 import { catchAsyncHandler } from '../error handling/errorHandlers'
 
 //Model & Types
-import Order, { IOrder } from '../models/Order'
-import Product from '../models/Product'
-import Media from '../models/Media'
+import Order, { IOrder, OrderStatus } from '../models/Order'
+import Carrier from '../models/Carrier'
 
 //Utils & Packages
 import { isToPopulate } from '../utils/isToPopulate'
 import QueryModifier from '../packages/QueryModifier'
 import makeUrlComplete from '../utils/makeUrlComplete'
+import snapshotOrderProducts, {
+    OrderLineInput,
+} from '../utils/snapshotOrderProducts'
+import {
+    applyOrderStatusChange,
+    assertCanChangeOrderStatus,
+    changeOrderStatus,
+    emitOrderStatusChange,
+    getInitialTimeline,
+    getUndeliveredLines,
+    getUnshippedLines,
+    StatusChange,
+} from '../packages/orderStatus'
+import { withTransaction } from '../packages/transaction'
+import { refundOrderPayment, RefundInput } from '../packages/refund'
+import {
+    convertPrice,
+    CurrencyRate,
+    resolveCurrency,
+} from '../packages/currency'
 
 /**
  ** ==========================================================
@@ -34,11 +54,22 @@ export const setUserId = (req: Request, res: Response, next: NextFunction) => {
  */
 export const createOrder = catchAsyncHandler(
     async (req: Request, res: Response) => {
-        //1) Get orderToBeCreated from req body
+        //1) Snapshot products of the order
+        const products = await snapshotOrderProducts(
+            JSON.parse(req.body.products)
+        )
+
+        //2) Get orderToBeCreated from req body
+        const delivery_status: OrderStatus =
+            req.body.delivery_status || 'processing'
         const orderToBeCreated: IOrder = {
             customer: req.body.customer,
-            products: JSON.parse(req.body.products),
-            delivery_status: req.body.delivery_status,
+            products,
+            delivery_status,
+            timeline: getInitialTimeline(delivery_status, {
+                source: 'admin',
+                changed_by: req.user._id,
+            }),
             shipping: {
                 address: {
                     ...JSON.parse(req.body.shipping?.address),
@@ -59,10 +90,10 @@ export const createOrder = catchAsyncHandler(
             created_at: req.body.created_at,
         }
 
-        //2) Create Order
+        //3) Create Order
         const DocOrder = await Order.create(orderToBeCreated)
 
-        //3) If no doc, throw err
+        //4) If no doc, throw err
         if (!DocOrder) {
             throw new AppError(
                 'Failed to create an order for some reason, please try again.',
@@ -70,13 +101,13 @@ export const createOrder = catchAsyncHandler(
             )
         }
 
-        //4) Populate fields
+        //5) Populate fields
         await DocOrder.populate({
-            path: 'customer products.product',
+            path: 'customer',
             select: { addresses: 0 },
         })
 
-        //5) Send a response
+        //6) Send a response
         res.status(201).json({
             status: 'success',
             data: DocOrder,
@@ -84,6 +115,44 @@ export const createOrder = catchAsyncHandler(
     }
 )
 
+/**
+ ** ==========================================================
+ ** getOrderPricing - Get amounts of an order in the currency
+ ** asked, else in the currency it was charged in, the rate of
+ ** order is used for its own currency
+ ** ==========================================================
+ */
+const getOrderPricing = (
+    order: IOrder,
+    asked: CurrencyRate | undefined,
+    base: CurrencyRate
+) => {
+    //1) Get currency and rate to convert amounts with
+    const isOrderCurrency =
+        !!order.currency?.code && (!asked || asked.code === order.currency.code)
+    const currency =
+        isOrderCurrency && order.currency ? order.currency : asked || base
+    const convert = (amount = 0) => convertPrice(amount, currency)
+
+    //2) Return amounts converted
+    return {
+        currency: currency.code,
+        rate: currency.rate,
+        products: order.products.map((prod) => ({
+            _id: prod._id,
+            price: convert(prod.price),
+            selling_price: convert(prod.selling_price),
+        })),
+        shipping: convert(order.shipping.cost),
+        discount: convert(order.billing.discount),
+        tax: convert(order.billing.tax),
+        paid_amount:
+            isOrderCurrency && order.currency
+                ? order.currency.charged_amount
+                : convert(order.billing.paid_amount),
+    }
+}
+
 /**
  ** ==========================================================
  ** getOrder - Get a single order
@@ -107,39 +176,11 @@ export const getOrder = catchAsyncHandler(
         if (isToPopulate('customer', req)) {
             query.populate('customer')
         }
-        if (isToPopulate('products', req)) {
-            query.populate({
-                path: 'products.product',
-                populate: {
-                    path: 'image',
-                    model: 'Media',
-                },
-            })
-        }
 
         //5) Exec query and retrive the matching doc found
         const DocOrder = await queryModifier.query.exec()
 
-        //6) Make url complete for image
-        const transformedProducts = DocOrder?.products.map((prod) => {
-            if (prod.product instanceof Product) {
-                return {
-                    quantity: prod.quantity,
-                    selected_variants: prod.selected_variants,
-                    product: {
-                        ...prod.product.toObject(),
-                        image: prod.product.image instanceof Media && {
-                            ...prod.product.image.toObject(),
-                            url: makeUrlComplete(prod.product.image.url, req),
-                        },
-                    },
-                }
-            }
-
-            return prod
-        })
-
-        //7) If no doc found, throw err
+        //6) If no doc found, throw err
         if (!DocOrder) {
             throw new AppError(
                 'No order document found to be retrieved with the id provided.',
@@ -147,12 +188,29 @@ export const getOrder = catchAsyncHandler(
             )
         }
 
-        //8) Send a response
+        //7) Make url complete for image of the products snapshot
+        const DocOrderObj = DocOrder.toJSON()
+        const transformedProducts = DocOrderObj.products?.map((prod) => ({
+            ...prod,
+            image_url: prod.image_url && makeUrlComplete(prod.image_url, req),
+        }))
+
+        //8) Get amounts of order in currency asked
+        const pricing = getOrderPricing(
+            DocOrder,
+            req.query.currency
+                ? await resolveCurrency(req.query.currency)
+                : undefined,
+            await resolveCurrency()
+        )
+
+        //9) Send a response
         res.status(200).json({
             status: 'success',
             data: {
-                ...DocOrder.toJSON(),
+                ...DocOrderObj,
                 products: transformedProducts,
+                pricing,
             },
         })
     }
@@ -179,9 +237,6 @@ export const getManyOrder = catchAsyncHandler(
         if (isToPopulate('customer', req)) {
             query.populate('customer')
         }
-        if (isToPopulate('products', req)) {
-            query.populate('products.product')
-        }
 
         //5) Exec query and retrive the matching doc found
         const DocsOrder = await queryModifier.query.exec()
@@ -200,12 +255,32 @@ export const getManyOrder = catchAsyncHandler(
             throw new AppError('No order document found to be retrieved.', 404)
         }
 
-        //8) Send a response
+        //8) Get currency asked, and base currency
+        const currencyAsked = req.query.currency
+            ? await resolveCurrency(req.query.currency)
+            : undefined
+        const baseCurrency = await resolveCurrency()
+
+        //9) Make url complete for image of the products snapshot, and add amounts in currency asked
+        const transformedDocsOrder = DocsOrder.map((order) => {
+            const DocOrderObj = order.toJSON()
+            return {
+                ...DocOrderObj,
+                products: DocOrderObj.products?.map((prod) => ({
+                    ...prod,
+                    image_url:
+                        prod.image_url && makeUrlComplete(prod.image_url, req),
+                })),
+                pricing: getOrderPricing(order, currencyAsked, baseCurrency),
+            }
+        })
+
+        //10) Send a response
         res.status(200).json({
             status: 'success',
-            results: DocsOrder.length,
+            results: transformedDocsOrder.length,
             count: DocsCount,
-            data: DocsOrder,
+            data: transformedDocsOrder,
         })
     }
 )
@@ -247,10 +322,19 @@ export const getTotalSales = catchAsyncHandler(
                 $group: {
                     _id: null,
                     sales: { $sum: '$billing.paid_amount' },
+                    tax: { $sum: '$billing.tax' },
                     orders: { $sum: 1 },
                 },
             },
-            { $project: { _id: 0, sales: 1, orders: 1 } },
+            {
+                $project: {
+                    _id: 0,
+                    sales: 1,
+                    tax: 1,
+                    net_revenue: { $subtract: ['$sales', '$tax'] },
+                    orders: 1,
+                },
+            },
         ])
 
         //2) Send a response
@@ -258,6 +342,8 @@ export const getTotalSales = catchAsyncHandler(
             status: 'success',
             data: {
                 total_sales: TotalSales[0]?.sales || 0,
+                total_tax: TotalSales[0]?.tax || 0,
+                net_revenue: TotalSales[0]?.net_revenue || 0,
                 total_orders: TotalSales[0]?.orders || 0,
             },
         })
@@ -273,26 +359,28 @@ export const getTotalRefunds = catchAsyncHandler(
     async (req: Request, res: Response) => {
         //1) Calc total refunds via aggregation
         const totalRefunds = await Order.aggregate([
+            { $unwind: '$refunds' },
             {
-                $match: { delivery_status: { $eq: 'refunded' } },
+                $match: { 'refunds.status': { $eq: 'succeeded' } },
             },
             {
-                $group: { _id: null, amount: { $sum: '$billing.paid_amount' } },
+                $group: { _id: null, amount: { $sum: '$refunds.amount' } },
             },
             { $project: { _id: 0, amount: 1 } },
         ])
 
         //2) Calc total refunds this year
         const totalRefundsInMonthsOfYear = await Order.aggregate([
+            { $unwind: '$refunds' },
             {
                 $match: {
-                    delivery_status: { $eq: 'refunded' },
+                    'refunds.status': { $eq: 'succeeded' },
                 },
             },
             {
                 $group: {
-                    _id: { $month: '$created_at' },
-                    amount: { $sum: '$billing.paid_amount' },
+                    _id: { $month: '$refunds.created_at' },
+                    amount: { $sum: '$refunds.amount' },
                 },
             },
             { $project: { _id: 0, month: '$_id', amount: 1 } },
@@ -345,6 +433,7 @@ export const getSalesInMonthsOfYear = catchAsyncHandler(
                     _id: { $month: '$created_at' },
                     orders: { $sum: 1 },
                     sales: { $sum: '$billing.paid_amount' },
+                    tax: { $sum: '$billing.tax' },
                 },
             },
             {
@@ -356,6 +445,8 @@ export const getSalesInMonthsOfYear = catchAsyncHandler(
                     month: '$_id',
                     orders: 1,
                     sales: 1,
+                    tax: 1,
+                    net_revenue: { $subtract: ['$sales', '$tax'] },
                 },
             },
         ])
@@ -364,6 +455,8 @@ export const getSalesInMonthsOfYear = catchAsyncHandler(
         const transformedSales = SalesInMonthsOfYear.map((doc) => ({
             orders: doc?.orders || 0,
             sales: doc?.sales || 0,
+            tax: doc?.tax || 0,
+            net_revenue: doc?.net_revenue || 0,
             month: new Date(`2022-${doc.month}-01`).toLocaleString('default', {
                 month: 'short',
             }),
@@ -387,55 +480,470 @@ export const updateOrder = catchAsyncHandler(
         //1) Get id of an order to be updated
         const id = req.params.id
 
-        //2) Get orderToBeUpdated from req body
-        const orderToBeUpdated: IOrder = {
+        //2) Find order to be updated, if not found, throw err
+        const DocOrderCurrent = await Order.findById(id)
+        if (!DocOrderCurrent) {
+            throw new AppError(
+                'No order found to be updated with the id provided.',
+                404
+            )
+        }
+
+        //3) If status asked can't be reached from current one, throw err
+        const status: OrderStatus | undefined = req.body.delivery_status
+        if (status && status !== DocOrderCurrent.delivery_status) {
+            if (status === 'refunded') {
+                throw new AppError(
+                    'An order can only be refunded via its refund route.',
+                    400
+                )
+            }
+            assertCanChangeOrderStatus(DocOrderCurrent.delivery_status, status)
+        }
+
+        //4) Keep snapshot of lines which already exist in order, and snapshot new ones
+        const lines: Array<OrderLineInput & { _id?: string }> = JSON.parse(
+            req.body.products
+        )
+        const currentProducts = DocOrderCurrent.toObject().products
+        const findExistingLine = (line: OrderLineInput & { _id?: string }) =>
+            currentProducts.find(
+                (prod) =>
+                    line._id &&
+                    prod._id?.toString() === line._id.toString() &&
+                    prod.product.toString() === line.product.toString()
+            )
+        const snapshots = await snapshotOrderProducts(
+            lines.filter((line) => !findExistingLine(line))
+        )
+        const products = lines.map((line) => {
+            const existingLine = findExistingLine(line)
+            return existingLine
+                ? { ...existingLine, quantity: line.quantity }
+                : (snapshots.shift() as IOrder['products'][number])
+        })
+
+        //5) Get orderToBeUpdated from req body, billing and shipping are updated by their paths,
+        //so the payment, tax, discount and shipping method stored with them are kept
+        const orderToBeUpdated: UpdateQuery<IOrder> = {
             customer: req.body.customer,
-            products: JSON.parse(req.body.products),
-            delivery_status: req.body.delivery_status,
-            shipping: {
-                address: {
-                    ...JSON.parse(req.body.shipping.address),
-                    default_billing_address: false,
-                    default_shipping_address: true,
-                },
+            products,
+            'shipping.address': {
+                ...JSON.parse(req.body.shipping.address),
+                default_billing_address: false,
+                default_shipping_address: true,
             },
-            billing: {
-                address: {
-                    ...JSON.parse(req.body.billing.address),
-                    default_billing_address: true,
-                    default_shipping_address: false,
-                },
-                payment_method: req.body.billing?.payment_method,
-                paid_amount: req.body.billing?.paid_amount,
+            'billing.address': {
+                ...JSON.parse(req.body.billing.address),
+                default_billing_address: true,
+                default_shipping_address: false,
             },
+            'billing.payment_method': req.body.billing?.payment_method,
+            'billing.paid_amount': req.body.billing?.paid_amount,
             created_at: req.body.created_at,
         }
 
-        //3) Update order
-        const DocOrder = await Order.findByIdAndUpdate(id, orderToBeUpdated)
+        //6) Update order, and move it to status asked if it differs, within a transaction
+        const statusChange: StatusChange = {
+            source: 'admin',
+            changed_by: req.user._id,
+            note: req.body.status_note,
+            strict: true,
+        }
+        const result = await withTransaction(async (session) => {
+            await Order.findByIdAndUpdate(id, orderToBeUpdated, { session })
+            if (!status || status === DocOrderCurrent.delivery_status) return
+            return applyOrderStatusChange(
+                { _id: id },
+                status,
+                statusChange,
+                session
+            )
+        })
+
+        //7) If status was moved, tell the rest of app about it
+        if (result && status)
+            emitOrderStatusChange(result, status, statusChange)
 
-        //4) Get updated order
+        //8) Get updated order
         const DocOrderUpdated = await Order.findById(id).populate({
-            path: 'customer products.product',
+            path: 'customer',
         })
 
-        //5) If no doc found, throw err
-        if (!DocOrder || !DocOrderUpdated) {
+        //9) If no doc found, throw err
+        if (!DocOrderUpdated) {
             throw new AppError(
                 'No order found to be updated with the id provided.',
                 404
             )
         }
 
-        //6) If delivery status changed, set the current date
-        if (DocOrder.delivery_status !== DocOrderUpdated.delivery_status) {
-            await DocOrder.updateOne({ status_changed_at: Date.now() })
+        //10) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocOrderUpdated,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** updateOrderStatus - Move a single order to another status
+ ** ==========================================================
+ */
+export const updateOrderStatus = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of order, and status asked
+        const id = req.params.id
+        const status: OrderStatus | undefined = req.body.status
+
+        //2) Status must be provided
+        if (!status) {
+            throw new AppError(
+                'Please provide a "status" to move order to.',
+                400
+            )
+        }
+
+        //3) Orders are refunded only via their refund route
+        if (status === 'refunded') {
+            throw new AppError(
+                'An order can only be refunded via its refund route.',
+                400
+            )
         }
 
-        //7) Send a response
+        //4) Move order to status, throws err if it can't be moved
+        const DocOrder = await changeOrderStatus({ _id: id }, status, {
+            source: 'admin',
+            changed_by: req.user._id,
+            note: req.body.note,
+            strict: true,
+        })
+
+        //5) Send a response
         res.status(200).json({
             status: 'success',
-            data: DocOrderUpdated,
+            data: DocOrder,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** cancelMyOrder - Cancel an order of current user which isn't
+ ** shipped yet, and refund its payment
+ ** ==========================================================
+ */
+export const cancelMyOrder = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of order to be canceled, and statuses it can be canceled in
+        const id = req.params.id
+        const cancelable: Array<OrderStatus> = [
+            'pending_payment',
+            'processing',
+            'on_hold',
+        ]
+
+        //2) Find order of current user, if not found, throw err
+        const DocOrder = await Order.findOne({
+            _id: id,
+            customer: req.user._id,
+        })
+        if (!DocOrder) {
+            throw new AppError(
+                'No order of yours found to be canceled with the id provided.',
+                404
+            )
+        }
+
+        //3) Order must not be shipped yet
+        if (
+            !DocOrder.delivery_status ||
+            !cancelable.includes(DocOrder.delivery_status)
+        ) {
+            throw new AppError(
+                `An order which is [${
+                    DocOrder.delivery_status
+                }] can't be canceled, only one which is: ${cancelable.join(
+                    ', '
+                )}.`,
+                400
+            )
+        }
+
+        //4) Order must not have any shipment
+        if (DocOrder.shipments?.length) {
+            throw new AppError(
+                "An order which is already shipped can't be canceled, please request a return once it is delivered.",
+                400
+            )
+        }
+
+        //5) A card order awaiting its payment can't be canceled, as a payment succeeding later could no longer be refunded
+        if (
+            DocOrder.delivery_status === 'pending_payment' &&
+            DocOrder.billing.payment_method === 'card'
+        ) {
+            throw new AppError(
+                "An order whose card payment is still being processed can't be canceled, please try again once the payment is confirmed.",
+                400
+            )
+        }
+
+        //6) Cancel order, gives back stock and deal units of its products
+        await changeOrderStatus(
+            { _id: id, customer: req.user._id },
+            'canceled',
+            {
+                source: 'customer',
+                changed_by: req.user._id,
+                note: req.body.reason,
+                from: cancelable,
+                strict: true,
+            }
+        )
+
+        //7) If order was paid by card, refund what's left of its payment
+        const { payment_method, payment_intent_id, transaction_id } =
+            DocOrder.billing
+        if (
+            DocOrder.delivery_status !== 'pending_payment' &&
+            payment_method === 'card' &&
+            (payment_intent_id || transaction_id)
+        ) {
+            try {
+                await refundOrderPayment(id, {
+                    reason: 'Canceled by customer',
+                    refunded_by: req.user._id,
+                    source: 'customer',
+                })
+            } catch (err) {
+                throw new AppError(
+                    `Your order was canceled, but refunding its payment failed, it will be refunded by our staff: ${
+                        (err as Error).message
+                    }`,
+                    502
+                )
+            }
+        }
+
+        //8) Get canceled order
+        const DocOrderCanceled = await Order.findById(id)
+
+        //9) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocOrderCanceled,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** createShipment - Ship lines of an order, all lines left to
+ ** be shipped if no items are provided
+ ** ==========================================================
+ */
+export const createShipment = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of order to be shipped, and items to be shipped, if sent as a json string
+        const id = req.params.id
+        const items: Array<{ line: string; quantity: number }> =
+            typeof req.body.items === 'string'
+                ? JSON.parse(req.body.items)
+                : req.body.items || []
+
+        //2) Find order, if not found, throw err
+        const DocOrder = await Order.findById(id)
+        if (!DocOrder) {
+            throw new AppError(
+                'No order found to be shipped with the id provided.',
+                404
+            )
+        }
+
+        //3) Only an order being processed can be shipped
+        if (DocOrder.delivery_status !== 'processing') {
+            throw new AppError(
+                `An order which is [${DocOrder.delivery_status}] can't be shipped.`,
+                400
+            )
+        }
+
+        //4) Find carrier of shipment, if not found, throw err
+        const DocCarrier = await Carrier.findOne({
+            code: String(req.body.carrier || '').toLowerCase(),
+        })
+        if (!DocCarrier) {
+            throw new AppError(
+                `No carrier found with the code [${req.body.carrier}].`,
+                400
+            )
+        }
+
+        //5) Each item must be a line left to be shipped, not shipped more than left
+        const unshippedLines = getUnshippedLines(DocOrder.toObject())
+        if (!Array.isArray(items)) {
+            throw new AppError(
+                'Shipment items must be a list of order lines with "line" and "quantity" values.',
+                400
+            )
+        }
+        const shipmentItems = items.length
+            ? items.map((item) => {
+                  //=> Find line of item left to be shipped
+                  const line = unshippedLines.find(
+                      (prod) => prod._id?.toString() === String(item.line)
+                  )
+                  if (!line || !line._id) {
+                      throw new AppError(
+                          `No line left to be shipped found in order with the id [${item.line}].`,
+                          400
+                      )
+                  }
+
+                  //=> A line must be listed only once
+                  if (
+                      items.filter(
+                          (curr) => String(curr.line) === String(item.line)
+                      ).length > 1
+                  ) {
+                      throw new AppError(
+                          `The line [${line.title}] must be listed only once.`,
+                          400
+                      )
+                  }
+
+                  //=> Quantity must not exceed what's left to be shipped
+                  const quantity = Number(item.quantity)
+                  if (
+                      !Number.isInteger(quantity) ||
+                      quantity <= 0 ||
+                      quantity > line.quantity
+                  ) {
+                      throw new AppError(
+                          `Please provide a valid quantity to be shipped of [${line.title}], at most ${line.quantity} can be shipped.`,
+                          400
+                      )
+                  }
+
+                  //=> Return item with order line
+                  return { line: line._id, quantity }
+              })
+            : unshippedLines.map((line) => ({
+                  line: line._id,
+                  quantity: line.quantity,
+              }))
+
+        //6) Something must be left to be shipped
+        if (shipmentItems.length <= 0) {
+            throw new AppError('Every line of this order is shipped.', 400)
+        }
+
+        //7) Add shipment, only if no shipment was added meanwhile
+        const tracking_number = String(req.body.tracking_number || '').trim()
+        const DocOrderShipped = await Order.findOneAndUpdate(
+            {
+                _id: id,
+                delivery_status: 'processing',
+                [`shipments.${DocOrder.shipments?.length || 0}`]: {
+                    $exists: false,
+                },
+            },
+            {
+                $push: {
+                    shipments: {
+                        items: shipmentItems,
+                        carrier: {
+                            code: DocCarrier.code,
+                            name: DocCarrier.name,
+                        },
+                        tracking_number,
+                        tracking_url: DocCarrier.tracking_url?.replace(
+                            '{tracking_number}',
+                            encodeURIComponent(tracking_number)
+                        ),
+                        shipped_at: req.body.shipped_at || Date.now(),
+                        created_by: req.user._id,
+                        created_at: Date.now(),
+                    },
+                },
+            },
+            { new: true, runValidators: true }
+        )
+
+        //8) If order was shipped or changed meanwhile, throw err
+        if (!DocOrderShipped) {
+            throw new AppError(
+                'This order was changed meanwhile, please try again.',
+                409
+            )
+        }
+
+        //9) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocOrderShipped,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** deliverShipment - Mark a shipment of an order as delivered,
+ ** and complete order once every line of it is delivered
+ ** ==========================================================
+ */
+export const deliverShipment = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of order, and of its shipment delivered
+        const { id, shipmentId } = req.params
+
+        //2) Mark shipment as delivered, only if it isn't already
+        const DocOrder = await Order.findOneAndUpdate(
+            {
+                _id: id,
+                shipments: {
+                    $elemMatch: {
+                        _id: shipmentId,
+                        delivered_at: { $exists: false },
+                    },
+                },
+            },
+            {
+                $set: {
+                    'shipments.$.delivered_at':
+                        req.body.delivered_at || Date.now(),
+                },
+            },
+            { new: true, runValidators: true }
+        )
+
+        //3) If no shipment left to be delivered found, throw err
+        if (!DocOrder) {
+            throw new AppError(
+                'No shipment left to be delivered found with the id provided.',
+                404
+            )
+        }
+
+        //4) If every line of order is delivered, complete it
+        if (getUndeliveredLines(DocOrder.toObject()).length <= 0) {
+            await changeOrderStatus({ _id: id }, 'completed', {
+                source: 'admin',
+                changed_by: req.user._id,
+                from: ['processing'],
+            })
+        }
+
+        //5) Get delivered order
+        const DocOrderDelivered = await Order.findById(id)
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocOrderDelivered,
         })
     }
 )
@@ -465,3 +973,38 @@ export const deleteOrder = catchAsyncHandler(
         res.status(204).json()
     }
 )
+
+/**
+ ** ==========================================================
+ ** refundOrder - Refund an order fully or partially
+ ** ==========================================================
+ */
+export const refundOrder = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of order to be refunded
+        const id = req.params.id
+
+        //2) Get items to be restocked, if sent as a json string
+        const items: RefundInput['items'] =
+            typeof req.body.items === 'string'
+                ? JSON.parse(req.body.items)
+                : req.body.items || []
+
+        //3) Refund order via its payment provider
+        await refundOrderPayment(id, {
+            amount: Number(req.body.amount),
+            items,
+            reason: req.body.reason,
+            refunded_by: req.user._id,
+        })
+
+        //4) Get refunded order
+        const DocOrderRefunded = await Order.findById(id)
+
+        //5) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocOrderRefunded,
+        })
+    }
+)
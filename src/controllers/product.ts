@@ -14,7 +14,15 @@ import AppError from '../error handling/AppError'
 //Packages & Utils
 import makeUrlComplete from '../utils/makeUrlComplete'
 import QueryModifier from '../packages/QueryModifier'
+import { appEvents } from '../packages/events'
+import { getActiveDeals, resolveProductPrice } from '../packages/pricing'
+import {
+    convertOptionalPrice,
+    convertPrice,
+    resolveCurrency,
+} from '../packages/currency'
 import { isToPopulate } from '../utils/isToPopulate'
+import { validateVariantCombinations } from '../utils/selectedVariants'
 import Category from '../models/Category'
 
 /**
@@ -75,13 +83,30 @@ export const createProduct = catchAsyncHandler(
                 weight: req.body.shipping?.weight,
             },
             variants: req.body.variants && JSON.parse(req.body.variants),
+            variant_combinations:
+                req.body.variant_combinations &&
+                JSON.parse(req.body.variant_combinations),
             staff_picked: req.body.staff_picked,
         }
 
-        //2) Create product
+        //2) If variant combinations provided, validate them, and stock is sum of their stocks
+        if (productToBeCreated.variant_combinations?.length) {
+            productToBeCreated.variant_combinations =
+                validateVariantCombinations(
+                    productToBeCreated,
+                    productToBeCreated.variant_combinations
+                )
+            productToBeCreated.stock =
+                productToBeCreated.variant_combinations.reduce(
+                    (prev, combination) => prev + Number(combination.stock),
+                    0
+                )
+        }
+
+        //3) Create product
         const DocProduct = await Product.create(productToBeCreated)
 
-        //3) Populate Fields
+        //4) Populate Fields
         await DocProduct.populate({
             path: 'image image_gallery categories',
             select: {
@@ -94,12 +119,12 @@ export const createProduct = catchAsyncHandler(
             },
         })
 
-        //4) Make url complete for image
+        //5) Make url complete for image
         if (DocProduct?.image instanceof Media) {
             DocProduct.image.url = makeUrlComplete(DocProduct.image.url, req)
         }
 
-        //5) Make url complete for image gallery
+        //6) Make url complete for image gallery
         const tranformedImageGallery: { url: string }[] = []
         DocProduct?.image_gallery?.map((media) => {
             if (media instanceof Media)
@@ -108,7 +133,7 @@ export const createProduct = catchAsyncHandler(
                 })
         })
 
-        //6) Send a response
+        //7) Send a response
         res.status(201).json({
             status: 'success',
             data: {
@@ -157,6 +182,12 @@ export const getProduct = catchAsyncHandler(
                 select: { url: 1, _id: 1, title: 1 },
             })
         }
+        if (isToPopulate('variant_combinations', req)) {
+            query.populate({
+                path: 'variant_combinations.image',
+                select: { url: 1, _id: 1, title: 1 },
+            })
+        }
 
         //4) Apply query modifiers to query
         const QueryModfier = new QueryModifier<typeof query>(
@@ -207,16 +238,59 @@ export const getProduct = catchAsyncHandler(
             })),
         }))
 
-        //9) Send a response
+        //9) Get deals of product active now, and currency asked
+        const DocsDeal = await getActiveDeals([DocProduct._id])
+        const currency = await resolveCurrency(req.query.currency)
+
+        //10) Make url complete for variant combinations images, and add deal price
+        const transformedCombinations = DocProduct.variant_combinations?.map(
+            ({ _id, sku, terms, stock, price, selling_price, image }) => ({
+                _id,
+                sku,
+                terms,
+                stock,
+                price: convertOptionalPrice(price, currency),
+                selling_price: convertOptionalPrice(selling_price, currency),
+                deal_price: convertOptionalPrice(
+                    resolveProductPrice(DocProduct, terms, DocsDeal).deal_price,
+                    currency
+                ),
+                image:
+                    image instanceof Media
+                        ? {
+                              _id: image._id,
+                              title: image.title,
+                              url: makeUrlComplete(image.url, req),
+                          }
+                        : image,
+            })
+        )
+
+        //11) Resolve effective price of product
+        const { price, selling_price, deal_price, deal } = resolveProductPrice(
+            DocProduct,
+            [],
+            DocsDeal
+        )
+
+        //12) Send a response
         res.status(200).json({
             status: 'success',
             data: {
                 ...DocProduct.toJSON(),
+                pricing: {
+                    currency: currency.code,
+                    price: convertPrice(price, currency),
+                    selling_price: convertPrice(selling_price, currency),
+                    deal_price: convertOptionalPrice(deal_price, currency),
+                    deal_ends_at: deal?.expires_in,
+                },
                 image_gallery:
                     tranformedImageGallery.length > 0
                         ? tranformedImageGallery
                         : undefined,
                 variants: transformedVariants,
+                variant_combinations: transformedCombinations,
             },
         })
     }
@@ -296,7 +370,13 @@ export const getManyProduct = catchAsyncHandler(
             )
         }
 
-        //7) Make url complete for image
+        //7) Get deals of products active now, and currency asked
+        const DocsDeal = await getActiveDeals(
+            DocsProduct.map((prod) => prod._id)
+        )
+        const currency = await resolveCurrency(req.query.currency)
+
+        //8) Make url complete for image, and add effective price
         const tranformedDocsProduct = DocsProduct.map((prod) => {
             //=> Transform image gallery
             const tranformedImageGallery: { url: string }[] = []
@@ -343,9 +423,20 @@ export const getManyProduct = catchAsyncHandler(
                 })),
             }))
 
+            //=> Resolve effective price
+            const { price, selling_price, deal_price, deal } =
+                resolveProductPrice(prod, [], DocsDeal)
+
             //=> Return
             return {
                 ...prod.toJSON(),
+                pricing: {
+                    currency: currency.code,
+                    price: convertPrice(price, currency),
+                    selling_price: convertPrice(selling_price, currency),
+                    deal_price: convertOptionalPrice(deal_price, currency),
+                    deal_ends_at: deal?.expires_in,
+                },
                 image: transformedImage.url ? transformedImage : undefined,
                 image_gallery:
                     tranformedImageGallery.length > 0
@@ -356,7 +447,7 @@ export const getManyProduct = catchAsyncHandler(
             }
         })
 
-        //8) Send a response
+        //9) Send a response
         res.status(200).json({
             status: 'success',
             count: DocsCount,
@@ -407,8 +498,17 @@ export const getTopSellingProducts = catchAsyncHandler(
             {
                 $group: {
                     _id: '$products.product',
+                    title: { $last: '$products.title' },
+                    sku: { $last: '$products.sku' },
                     sold: { $sum: '$products.quantity' },
-                    sales: { $sum: '$billing.paid_amount' },
+                    sales: {
+                        $sum: {
+                            $multiply: [
+                                '$products.selling_price',
+                                '$products.quantity',
+                            ],
+                        },
+                    },
                 },
             },
             {
@@ -1103,10 +1203,54 @@ export const updateProduct = catchAsyncHandler(
                 weight: req.body.shipping?.weight,
             },
             variants: req.body.variants && JSON.parse(req.body.variants),
+            variant_combinations:
+                req.body.variant_combinations &&
+                JSON.parse(req.body.variant_combinations),
             staff_picked: req.body.staff_picked,
         }
 
-        //3) Update product
+        //3) Find product before update, to tell whether it's restocked or its price dropped, if not exist, throw err
+        const DocProductBefore = await Product.findById(id).select(
+            'title price selling_price stock variants variant_combinations'
+        )
+        if (!DocProductBefore) {
+            throw new AppError(
+                'No product document to update with the id provided.',
+                404
+            )
+        }
+
+        //4) Variant combinations must match variants of product, the stored ones as well if only variants changed
+        const product = {
+            title: productToBeUpdated.title || DocProductBefore.title,
+            variants: productToBeUpdated.variants || DocProductBefore.variants,
+        }
+        if (productToBeUpdated.variant_combinations?.length) {
+            productToBeUpdated.variant_combinations =
+                validateVariantCombinations(
+                    product,
+                    productToBeUpdated.variant_combinations
+                )
+        } else if (
+            productToBeUpdated.variants &&
+            DocProductBefore.variant_combinations?.length
+        ) {
+            validateVariantCombinations(
+                product,
+                DocProductBefore.toObject().variant_combinations
+            )
+        }
+
+        //5) If variant combinations provided, stock is sum of their stocks
+        if (productToBeUpdated.variant_combinations?.length) {
+            productToBeUpdated.stock =
+                productToBeUpdated.variant_combinations.reduce(
+                    (prev, combination) => prev + Number(combination.stock),
+                    0
+                )
+        }
+
+        //6) Update product
         const DocProduct = await Product.findByIdAndUpdate(
             id,
             productToBeUpdated,
@@ -1118,7 +1262,7 @@ export const updateProduct = catchAsyncHandler(
             select: { _id: 1, url: 1, title: 1 },
         })
 
-        //4) If no document found, throw err
+        //7) If no document found, throw err
         if (!DocProduct) {
             throw new AppError(
                 'No product document to update with the id provided.',
@@ -1126,12 +1270,29 @@ export const updateProduct = catchAsyncHandler(
             )
         }
 
-        //5) Make url complete for image
+        //8) Tell the rest of app if product is back in stock, or its price may have dropped
+        const wasOutOfStock =
+            DocProductBefore.stock <= 0 ||
+            !!DocProductBefore.variant_combinations?.some(
+                (combination) => combination.stock <= 0
+            )
+        if (wasOutOfStock && DocProduct.stock > 0) {
+            appEvents.emit('product-restocked', { _id: DocProduct._id })
+        }
+        if (
+            (DocProduct.selling_price || DocProduct.price) <
+                (DocProductBefore.selling_price || DocProductBefore.price) ||
+            productToBeUpdated.variant_combinations?.length
+        ) {
+            appEvents.emit('product-price-dropped', { _id: DocProduct._id })
+        }
+
+        //9) Make url complete for image
         if (DocProduct?.image instanceof Media) {
             DocProduct.image.url = makeUrlComplete(DocProduct.image.url, req)
         }
 
-        //6) Make url complete for image gallery
+        //10) Make url complete for image gallery
         const tranformedImageGallery: { url: string }[] = []
         DocProduct?.image_gallery?.map((media) => {
             if (media instanceof Media)
@@ -1140,7 +1301,7 @@ export const updateProduct = catchAsyncHandler(
                 })
         })
 
-        //7) Send a response
+        //11) Send a response
         res.status(200).json({
             status: 'success',
             data: {
@@ -0,0 +1,318 @@
+import { Request, Response } from 'express'
+import { HydratedDocument } from 'mongoose'
+
+//Models & Types
+import ProductAlert, { ProductAlertType } from '../models/ProductAlert'
+import Product, { IProduct, IProductMethods } from '../models/Product'
+import User from '../models/User'
+import Deal from '../models/Deal'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import { AppEvents } from '../packages/events'
+import { mail } from '../packages/mailer'
+import { getProductPrice, ProductPrice } from '../packages/pricing'
+import {
+    isSameVariantSelection,
+    SelectedVariants,
+    validateSelectedVariants,
+} from '../utils/selectedVariants'
+
+/**
+ ** ====================================
+ ** createMyProductAlert = Subscribe current user to a back in stock or price drop alert of a product
+ ** ====================================
+ */
+export const createMyProductAlert = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Validate
+        if (!req.body.product) {
+            throw new AppError(
+                'Must provide id of the product to be alerted of.',
+                400
+            )
+        }
+        const type: ProductAlertType = req.body.type
+        if (type !== 'back_in_stock' && type !== 'price_drop') {
+            throw new AppError(
+                'Alert type must be either back_in_stock or price_drop.',
+                400
+            )
+        }
+
+        //2) Find product, if not exist, throw err
+        const DocProduct = await Product.findById(req.body.product)
+        if (!DocProduct) {
+            throw new AppError('No product exist with the id provided.', 404)
+        }
+
+        //3) Validate selected variants against variants declared on product
+        const selectedVariants = validateSelectedVariants(
+            DocProduct,
+            req.body.selected_variants
+        )
+
+        //4) A back in stock alert is only for what's out of stock
+        if (
+            type === 'back_in_stock' &&
+            getStockOf(DocProduct, selectedVariants) > 0
+        ) {
+            throw new AppError(
+                `[${DocProduct.title}] is in stock already, no need to be alerted.`,
+                400
+            )
+        }
+
+        //5) User must not be subscribed already to the same alert
+        const DocsAlert = await ProductAlert.find({
+            user: req.user._id,
+            product: DocProduct._id,
+            type,
+            status: 'active',
+        })
+        if (
+            DocsAlert.some((alert) =>
+                isSameVariantSelection(
+                    alert.selected_variants,
+                    selectedVariants
+                )
+            )
+        ) {
+            throw new AppError(
+                `You are already subscribed to this alert of [${DocProduct.title}].`,
+                400
+            )
+        }
+
+        //6) Create alert, along with the price it's subscribed at
+        const DocAlert = await ProductAlert.create({
+            user: req.user._id,
+            product: DocProduct._id,
+            selected_variants: selectedVariants,
+            type,
+            price:
+                type === 'price_drop'
+                    ? getEffectivePrice(
+                          await getProductPrice(DocProduct, selectedVariants)
+                      )
+                    : undefined,
+        })
+
+        //7) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocAlert,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getMyProductAlerts = Get product alerts of current user
+ ** ====================================
+ */
+export const getMyProductAlerts = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find alerts of user, active ones unless status asked
+        const DocsAlert = await ProductAlert.find({
+            user: req.user._id,
+            status: req.query.status === 'closed' ? 'closed' : 'active',
+        })
+            .sort({ created_at: -1 })
+            .populate({ path: 'product', select: 'title price selling_price' })
+
+        //2) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsAlert.length,
+            data: DocsAlert,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteMyProductAlert = Unsubscribe current user from a product alert
+ ** ====================================
+ */
+export const deleteMyProductAlert = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Delete alert of user
+        const DelResults = await ProductAlert.deleteOne({
+            _id: req.params.id,
+            user: req.user._id,
+        })
+
+        //2) If no doc found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No product alert found with the id provided.',
+                404
+            )
+        }
+
+        //3) Send a response
+        res.status(204).json()
+    }
+)
+
+/**
+ ** ====================================
+ ** getStockOf = Get stock of a product or its variant combination matching selection
+ ** ====================================
+ */
+const getStockOf = (
+    DocProduct: HydratedDocument<IProduct, IProductMethods>,
+    selected_variants: SelectedVariants
+) => {
+    //1) If product has combinations, stock is of the one matching selection
+    if (DocProduct.variant_combinations?.length) {
+        return DocProduct.findVariantCombination(selected_variants)?.stock || 0
+    }
+
+    //2) Else stock is of the product
+    return DocProduct.stock
+}
+
+/**
+ ** ====================================
+ ** getEffectivePrice = Get price a product is sold at, deal price if it's on a deal
+ ** ====================================
+ */
+const getEffectivePrice = (productPrice: ProductPrice) =>
+    productPrice.deal_price ?? productPrice.selling_price
+
+/**
+ ** ====================================
+ ** notifyProductAlerts = Email subscribers of a product whose alert is met, and close their alerts
+ ** ====================================
+ */
+const notifyProductAlerts =
+    (type: ProductAlertType) =>
+    async (
+        change:
+            | AppEvents['product-restocked']
+            | AppEvents['product-price-dropped']
+    ) => {
+        try {
+            //1) Find product, if not exist, nothing to alert of
+            const DocProduct = await Product.findById(change._id)
+            if (!DocProduct) return
+
+            //2) Find active alerts of product
+            const DocsAlert = await ProductAlert.find({
+                product: DocProduct._id,
+                type,
+                status: 'active',
+            })
+
+            //3) Email subscriber of each alert that is met
+            for (const DocAlert of DocsAlert) {
+                //=> Skip alerts not met, still out of stock or price isn't below the price subscribed at
+                const selling_price = getEffectivePrice(
+                    await getProductPrice(
+                        DocProduct,
+                        DocAlert.selected_variants
+                    )
+                )
+                const isMet =
+                    type === 'back_in_stock'
+                        ? getStockOf(DocProduct, DocAlert.selected_variants) > 0
+                        : selling_price < (DocAlert.price || 0)
+                if (!isMet) continue
+
+                //=> Close the alert, only if it's still active, so it's never sent twice
+                const UpdateResults = await ProductAlert.updateOne(
+                    { _id: DocAlert._id, status: 'active' },
+                    { $set: { status: 'closed', closed_at: Date.now() } }
+                )
+                if (UpdateResults.modifiedCount <= 0) continue
+
+                try {
+                    //=> Find subscriber
+                    const DocUser = await User.findById(DocAlert.user)
+                    if (!DocUser) continue
+
+                    //=> Email subscriber
+                    const variants = DocAlert.selected_variants
+                        .map((variant) => `${variant.name}: ${variant.term}`)
+                        .join(', ')
+                    const title = variants
+                        ? `${DocProduct.title} (${variants})`
+                        : DocProduct.title
+                    await mail({
+                        to: DocUser.email,
+                        subject:
+                            type === 'back_in_stock'
+                                ? `${DocProduct.title} is back in stock`
+                                : `${DocProduct.title} is now cheaper`,
+                        message:
+                            type === 'back_in_stock'
+                                ? `Hi ${DocUser.name}, [${title}] is back in stock. Grab it before it's gone again.`
+                                : `Hi ${DocUser.name}, the price of [${title}] dropped from ${DocAlert.price} to ${selling_price}.`,
+                    })
+                } catch (err) {
+                    //=> Reopen the alert, so subscriber is alerted on next change
+                    await ProductAlert.updateOne(
+                        { _id: DocAlert._id },
+                        {
+                            $set: { status: 'active' },
+                            $unset: { closed_at: 1 },
+                        }
+                    )
+                    console.log(
+                        `Failed to email subscriber of product alert [${
+                            DocAlert._id
+                        }]:\t[${(err as Error).message}]`
+                    )
+                }
+            }
+        } catch (err) {
+            console.log(
+                `Failed to alert subscribers of product [${change._id}]:\t[${
+                    (err as Error).message
+                }]`
+            )
+        }
+    }
+
+/**
+ ** ====================================
+ ** notifyProductRestocked = Email subscribers of a product once it's back in stock
+ ** ====================================
+ */
+export const notifyProductRestocked = notifyProductAlerts('back_in_stock')
+
+/**
+ ** ====================================
+ ** notifyProductPriceDropped = Email subscribers of a product once its price drops
+ ** ====================================
+ */
+export const notifyProductPriceDropped = notifyProductAlerts('price_drop')
+
+/**
+ ** ====================================
+ ** notifyDealStarted = Email subscribers of the products of a deal just started, as their price dropped
+ ** ====================================
+ */
+export const notifyDealStarted = async (deal: AppEvents['deal-started']) => {
+    try {
+        //1) Find deal, if not exist, nothing to alert of
+        const DocDeal = await Deal.findById(deal._id)
+        if (!DocDeal) return
+
+        //2) Alert subscribers of each product of deal
+        for (const product of DocDeal.products) {
+            await notifyProductPriceDropped({ _id: product })
+        }
+    } catch (err) {
+        console.log(
+            `Failed to alert subscribers of deal [${deal._id}]:\t[${
+                (err as Error).message
+            }]`
+        )
+    }
+}
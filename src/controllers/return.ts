@@ -0,0 +1,493 @@
+import { Request, Response } from 'express'
+import { ObjectId } from 'mongodb'
+
+//Models & Types
+import Return, { IReturn, ReturnStatus } from '../models/Return'
+import Order from '../models/Order'
+import Media from '../models/Media'
+import User from '../models/User'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+import { isToPopulate } from '../utils/isToPopulate'
+import makeUrlComplete from '../utils/makeUrlComplete'
+import { getRefundedAmount, refundOrderPayment } from '../packages/refund'
+import { appEvents, AppEvents } from '../packages/events'
+import { mail } from '../packages/mailer'
+
+/*
+ ** **
+ ** ** ** MESSAGES - Each step of a return as told to customers
+ ** **
+ */
+const RETURN_STATUS_MESSAGES: Record<ReturnStatus, string> = {
+    requested: 'we have received your return request, and will review it soon',
+    approved: 'your return request has been approved',
+    rejected: 'your return request has been rejected',
+    refunded: 'your return has been refunded',
+}
+
+/**
+ ** ==========================================================
+ ** roundPrice - Round price to cents
+ ** ==========================================================
+ */
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+/**
+ ** ==========================================================
+ ** emitReturnStatus - Tell the rest of app about a step of the
+ ** return
+ ** ==========================================================
+ */
+const emitReturnStatus = (DocReturn: IReturn & { _id: ObjectId }) =>
+    appEvents.emit('return-status-changed', {
+        _id: DocReturn._id,
+        order: DocReturn.order,
+        customer: DocReturn.customer,
+        status: DocReturn.status || 'requested',
+        note: DocReturn.resolution_note,
+    })
+
+/**
+ ** ==========================================================
+ ** notifyReturnStatusChange - Email customer on each step of
+ ** their return
+ ** ==========================================================
+ */
+export const notifyReturnStatusChange = async (
+    change: AppEvents['return-status-changed']
+) => {
+    try {
+        //1) Find customer of return
+        const DocUser = await User.findById(change.customer)
+        if (!DocUser) return
+
+        //2) Email customer
+        await mail({
+            to: DocUser.email,
+            subject: `Your return is ${change.status}`,
+            message: `Hi ${DocUser.name}, ${
+                RETURN_STATUS_MESSAGES[change.status]
+            } [return ${change._id} of order ${change.order}].${
+                change.note ? `\n\n${change.note}` : ''
+            }`,
+        })
+    } catch (err) {
+        console.log(
+            `Failed to email customer about return [${change._id}]:\t[${
+                (err as Error).message
+            }]`
+        )
+    }
+}
+
+/**
+ ** ==========================================================
+ ** createMyReturn - Request a return of items of an order of
+ ** current user
+ ** ==========================================================
+ */
+export const createMyReturn = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get items to be returned, if sent as a json string
+        const items: Array<{
+            line: string
+            quantity: number
+            reason: IReturn['items'][number]['reason']
+        }> =
+            typeof req.body.items === 'string'
+                ? JSON.parse(req.body.items)
+                : req.body.items || []
+
+        //2) Find order of current user, if not found, throw err
+        const DocOrder = await Order.findOne({
+            _id: req.body.order,
+            customer: req.user._id,
+        })
+        if (!DocOrder) {
+            throw new AppError(
+                'No order of yours found with the id provided.',
+                404
+            )
+        }
+
+        //3) Only a completed order can be returned
+        if (DocOrder.delivery_status !== 'completed') {
+            throw new AppError('Only a completed order can be returned.', 400)
+        }
+
+        //4) Order must be returned within the return window
+        const windowInDays = (process.env.RETURN_WINDOW || 30) as number
+        const completedAt = new Date(
+            DocOrder.status_changed_at || DocOrder.created_at || Date.now()
+        )
+        if (
+            Date.now() >
+            completedAt.getTime() + windowInDays * 24 * 60 * 60 * 1000
+        ) {
+            throw new AppError(
+                `An order can only be returned within ${windowInDays} days of its completion.`,
+                400
+            )
+        }
+
+        //5) Items must be a non empty list
+        if (!Array.isArray(items) || items.length <= 0) {
+            throw new AppError(
+                'Return items must be a list of order lines with "line", "quantity" and "reason" values.',
+                400
+            )
+        }
+
+        //6) Get quantity of each line refunded, or in other returns not rejected
+        const taken = new Map<string, number>()
+        const addTaken = (line: { toString(): string }, quantity: number) =>
+            taken.set(
+                line.toString(),
+                (taken.get(line.toString()) || 0) + quantity
+            )
+        const refunds = (DocOrder.refunds || []).filter(
+            (refund) => refund.status !== 'failed'
+        )
+        refunds.forEach((refund) =>
+            refund.items.forEach((item) => addTaken(item.line, item.quantity))
+        )
+        const DocsReturn = await Return.find({
+            order: DocOrder._id,
+            status: { $in: ['requested', 'approved'] },
+        })
+        DocsReturn.forEach((DocReturn) =>
+            DocReturn.items.forEach((item) =>
+                addTaken(item.line, item.quantity)
+            )
+        )
+
+        //7) Each item must be a line of order, not returned more than bought
+        const returnItems = items.map((item) => {
+            //=> Find order line of item
+            const line = DocOrder.products.find(
+                (prod) => prod._id?.toString() === String(item.line)
+            )
+            if (!line || !line._id) {
+                throw new AppError(
+                    `No line found in order with the id [${item.line}].`,
+                    400
+                )
+            }
+
+            //=> A line must be listed only once
+            if (
+                items.filter((curr) => String(curr.line) === String(item.line))
+                    .length > 1
+            ) {
+                throw new AppError(
+                    `The line [${line.title}] must be listed only once.`,
+                    400
+                )
+            }
+
+            //=> Quantity must not exceed what's left to be returned
+            const quantity = Number(item.quantity)
+            const returnableQuantity =
+                line.quantity - (taken.get(line._id.toString()) || 0)
+            if (
+                !Number.isInteger(quantity) ||
+                quantity <= 0 ||
+                quantity > returnableQuantity
+            ) {
+                throw new AppError(
+                    `Please provide a valid quantity to be returned of [${line.title}], at most ${returnableQuantity} can be returned.`,
+                    400
+                )
+            }
+
+            //=> Return item with order line
+            return {
+                line: line._id,
+                title: line.title,
+                quantity,
+                reason: item.reason,
+            }
+        })
+
+        //8) Get return to be created
+        const returnToBeCreated: IReturn = {
+            order: DocOrder._id,
+            customer: req.user._id as IReturn['customer'],
+            items: returnItems,
+            comment: req.body.comment,
+        }
+
+        //9) Set photos of return if provided
+        const imgs = req.media?.find((m) => m.name === 'images')?.value
+        if (Array.isArray(imgs) && imgs.length > 0) {
+            const DocsMedia = await Promise.all(
+                imgs.map((media) =>
+                    Media.create({ ...media, uploaded_by: req.user._id })
+                )
+            )
+            returnToBeCreated.images = DocsMedia.map((m) => m._id)
+        }
+
+        //10) Create return
+        const DocReturn = await Return.create(returnToBeCreated)
+
+        //11) Tell the rest of app about the return requested
+        emitReturnStatus(DocReturn)
+
+        //12) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocReturn,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** getReturn - Retrieve a single return
+ ** ==========================================================
+ */
+export const getReturn = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a return to be retrieved
+        const id = req.params.id
+
+        //2) Get query, of current user only if customer is set
+        const query = Return.findOne({
+            _id: id,
+            ...(req.query.customer ? { customer: req.query.customer } : {}),
+        })
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Populate fields only when it's okay to do so
+        if (isToPopulate('images', req)) {
+            query.populate({
+                path: 'images',
+                select: { url: 1, _id: 1 },
+            })
+        }
+
+        //5) Exec query to retrieve return doc match found
+        const DocReturn = await QueryModfier.query.exec()
+
+        //6) If no document found, throw err
+        if (!DocReturn) {
+            throw new AppError(
+                'No return document found to be retrieved with the id provided.',
+                404
+            )
+        }
+
+        //7) Make url complete for images
+        const transformedImages: { url: string }[] = []
+        DocReturn.images?.forEach((media) => {
+            if (media instanceof Media)
+                transformedImages.push({
+                    url: makeUrlComplete(media.url, req),
+                })
+        })
+
+        //8) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                ...DocReturn.toJSON(),
+                images:
+                    transformedImages.length > 0
+                        ? transformedImages
+                        : DocReturn.images,
+            },
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** getManyReturn - Retrieve one or more return
+ ** ==========================================================
+ */
+export const getManyReturn = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = Return.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve return docs match found
+        const DocsReturn = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsReturn.length,
+            data: DocsReturn,
+        })
+    }
+)
+
+/**
+ ** ==========================================================
+ ** reviewReturn - Approve or reject a return requested
+ ** ==========================================================
+ */
+const reviewReturn = (status: 'approved' | 'rejected') =>
+    catchAsyncHandler(async (req: Request, res: Response) => {
+        //1) Review return, only if it's still requested
+        const DocReturn = await Return.findOneAndUpdate(
+            { _id: req.params.id, status: 'requested' },
+            {
+                status,
+                resolution_note: req.body.note,
+                reviewed_by: req.user._id,
+                reviewed_at: Date.now(),
+            },
+            { new: true, runValidators: true }
+        )
+
+        //2) If no return requested found, throw err
+        if (!DocReturn) {
+            throw new AppError(
+                'No return request found to be reviewed with the id provided.',
+                404
+            )
+        }
+
+        //3) Tell the rest of app about the return reviewed
+        emitReturnStatus(DocReturn)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocReturn,
+        })
+    })
+
+//Approve a return requested
+export const approveReturn = reviewReturn('approved')
+
+//Reject a return requested
+export const rejectReturn = reviewReturn('rejected')
+
+/**
+ ** ==========================================================
+ ** refundReturn - Refund items of an approved return, and give
+ ** back their stock
+ ** ==========================================================
+ */
+export const refundReturn = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of return to be refunded
+        const id = req.params.id
+
+        //2) Claim approved return, so it isn't refunded twice
+        const DocReturn = await Return.findOneAndUpdate(
+            { _id: id, status: 'approved' },
+            { status: 'refunded' }
+        )
+        if (!DocReturn) {
+            throw new AppError(
+                'No approved return found to be refunded with the id provided.',
+                404
+            )
+        }
+
+        //3) Refund items of return, give back claim if it fails
+        let refund: Awaited<ReturnType<typeof refundOrderPayment>>
+        try {
+            //=> Find order of return
+            const DocOrder = await Order.findById(DocReturn.order)
+            if (!DocOrder) {
+                throw new AppError(
+                    'No order found of this return to be refunded.',
+                    404
+                )
+            }
+
+            //=> Get amount paid for items, less its share of shipping, within what's left to be refunded
+            const linesTotal = DocOrder.products.reduce(
+                (prev, line) => prev + line.selling_price * line.quantity,
+                0
+            )
+            const itemsTotal = DocReturn.items.reduce((prev, item) => {
+                const line = DocOrder.products.find((prod) =>
+                    prod._id?.equals(item.line)
+                )
+                return prev + (line?.selling_price || 0) * item.quantity
+            }, 0)
+            const paidForLines =
+                DocOrder.billing.paid_amount - (DocOrder.shipping.cost || 0)
+            const amount =
+                req.body.amount !== undefined
+                    ? Number(req.body.amount)
+                    : Math.min(
+                          roundPrice(
+                              linesTotal > 0
+                                  ? (itemsTotal * paidForLines) / linesTotal
+                                  : 0
+                          ),
+                          roundPrice(
+                              DocOrder.billing.paid_amount -
+                                  getRefundedAmount(DocOrder)
+                          )
+                      )
+
+            //=> Refund order via its payment provider
+            refund = await refundOrderPayment(DocOrder._id, {
+                amount,
+                items: DocReturn.items.map((item) => ({
+                    line: item.line,
+                    quantity: item.quantity,
+                })),
+                reason: `Return [${DocReturn._id}]`,
+                refunded_by: req.user._id,
+            })
+        } catch (err) {
+            await Return.updateOne(
+                { _id: id, status: 'refunded' },
+                { status: 'approved' }
+            )
+            throw err
+        }
+
+        //4) Record refund of return
+        const DocReturnRefunded = await Return.findByIdAndUpdate(
+            id,
+            {
+                refund: { ...refund, created_at: Date.now() },
+                resolution_note: req.body.note || DocReturn.resolution_note,
+            },
+            { new: true, runValidators: true }
+        )
+        if (!DocReturnRefunded) {
+            throw new AppError(
+                'No return found to be refunded with the id provided.',
+                404
+            )
+        }
+
+        //5) Tell the rest of app about the return refunded
+        emitReturnStatus(DocReturnRefunded)
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocReturnRefunded,
+        })
+    }
+)
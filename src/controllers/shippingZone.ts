@@ -0,0 +1,222 @@
+import { Request, Response } from 'express'
+
+//Models & Types
+import ShippingZone, { IShippingZone } from '../models/ShippingZone'
+import Location from '../models/Location'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+
+/**
+ ** ====================================
+ ** validateZoneRegions = Validate that
+ ** countries and states of a zone exist
+ ** in locations
+ ** ====================================
+ */
+const validateZoneRegions = async (
+    regions: IShippingZone['regions'] | undefined
+) => {
+    //1) If no regions provided, return
+    if (!Array.isArray(regions)) return
+
+    //2) Find countries of regions
+    const DocsLocation = await Location.find({
+        name: { $in: regions.map((region) => region.country) },
+    }).select({ name: true, 'states.name': true })
+
+    //3) Each country and its states must exist
+    regions.forEach((region) => {
+        const DocLocation = DocsLocation.find(
+            (location) => location.name === region.country
+        )
+        if (!DocLocation) {
+            throw new AppError(
+                `No country found with the name [${region.country}].`,
+                400
+            )
+        }
+
+        const state = (region.states || []).find(
+            (state) => !DocLocation.states.some(({ name }) => name === state)
+        )
+        if (state) {
+            throw new AppError(
+                `No state found with the name [${state}] in the country [${region.country}].`,
+                400
+            )
+        }
+    })
+}
+
+/**
+ ** ====================================
+ ** createShippingZone = Create a single shipping zone
+ ** ====================================
+ */
+export const createShippingZone = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get fields from req body
+        const zoneToBeCreated: IShippingZone = {
+            name: req.body.name,
+            regions: req.body.regions,
+            is_fallback: req.body.is_fallback,
+            volumetric_divisor: req.body.volumetric_divisor,
+            methods: req.body.methods,
+        }
+
+        //2) Validate regions of zone
+        await validateZoneRegions(zoneToBeCreated.regions)
+
+        //3) Create shipping zone
+        const DocShippingZone = await ShippingZone.create(zoneToBeCreated)
+
+        //4) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocShippingZone,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getShippingZone = Get a single shipping zone
+ ** ====================================
+ */
+export const getShippingZone = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a shipping zone to be retrieved
+        const id = req.params.id
+
+        //2) Get query
+        const query = ShippingZone.findById(id)
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Exec query to retrieve shipping zone doc match found
+        const DocShippingZone = await QueryModfier.query.exec()
+
+        //5) If no document found, throw err
+        if (!DocShippingZone) {
+            throw new AppError(
+                'No shipping zone document found to be retrieve with the id provided.',
+                404
+            )
+        }
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocShippingZone,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getManyShippingZone = Get one or more shipping zone
+ ** ====================================
+ */
+export const getManyShippingZone = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = ShippingZone.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve shipping zone docs match found
+        const DocsShippingZone = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsShippingZone.length,
+            data: DocsShippingZone,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** updateShippingZone = Update a single shipping zone
+ ** ====================================
+ */
+export const updateShippingZone = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of shipping zone to be updated
+        const id = req.params.id
+
+        //2) Get fields from req body
+        const zoneToBeUpdated: Partial<IShippingZone> = {
+            name: req.body.name,
+            regions: req.body.regions,
+            is_fallback: req.body.is_fallback,
+            volumetric_divisor: req.body.volumetric_divisor,
+            methods: req.body.methods,
+        }
+
+        //3) Validate regions of zone, if provided
+        await validateZoneRegions(zoneToBeUpdated.regions)
+
+        //4) Update shipping zone
+        const DocShippingZone = await ShippingZone.findByIdAndUpdate(
+            id,
+            zoneToBeUpdated,
+            { new: true, runValidators: true }
+        )
+
+        //5) If no shipping zone document found, throw err
+        if (!DocShippingZone) {
+            throw new AppError(
+                'No shipping zone document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //6) Return a response
+        res.status(200).json({
+            status: 'success',
+            data: DocShippingZone,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteShippingZone = Delete a single shipping zone
+ ** ====================================
+ */
+export const deleteShippingZone = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a shipping zone to be deleted
+        const id = req.params.id
+
+        //2) Delete shipping zone
+        const DelResults = await ShippingZone.deleteOne({ _id: id })
+
+        //3) If no document found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No shipping zone found to be deleted with the id provided.',
+                404
+            )
+        }
+
+        //4) Send a response
+        res.status(204).json()
+    }
+)
@@ -0,0 +1,221 @@
+import { Request, Response } from 'express'
+
+//Models & Types
+import TaxRule, { ITaxRule } from '../models/TaxRule'
+import Location from '../models/Location'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import QueryModifier from '../packages/QueryModifier'
+
+/**
+ ** ====================================
+ ** validateTaxRuleDestination = Validate
+ ** that country and state of a tax rule
+ ** exist in locations
+ ** ====================================
+ */
+const validateTaxRuleDestination = async (
+    rule: Partial<Pick<ITaxRule, 'country' | 'state'>>
+) => {
+    //1) If no country provided, return
+    if (!rule.country) return
+
+    //2) Find country of tax rule
+    const DocLocation = await Location.findOne({ name: rule.country }).select({
+        name: true,
+        'states.name': true,
+    })
+
+    //3) If no country found, throw err
+    if (!DocLocation) {
+        throw new AppError(
+            `No country found with the name [${rule.country}].`,
+            400
+        )
+    }
+
+    //4) If state provided is not of country, throw err
+    if (
+        rule.state &&
+        !DocLocation.states.some(({ name }) => name === rule.state)
+    ) {
+        throw new AppError(
+            `No state found with the name [${rule.state}] in the country [${rule.country}].`,
+            400
+        )
+    }
+}
+
+/**
+ ** ====================================
+ ** createTaxRule = Create a single tax rule
+ ** ====================================
+ */
+export const createTaxRule = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get fields from req body
+        const taxRuleToBeCreated: ITaxRule = {
+            name: req.body.name,
+            country: req.body.country,
+            state: req.body.state,
+            tax_class: req.body.tax_class,
+            rate: req.body.rate,
+            price_mode: req.body.price_mode,
+        }
+
+        //2) Validate destination of tax rule
+        await validateTaxRuleDestination(taxRuleToBeCreated)
+
+        //3) Create tax rule
+        const DocTaxRule = await TaxRule.create(taxRuleToBeCreated)
+
+        //4) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocTaxRule,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getTaxRule = Get a single tax rule
+ ** ====================================
+ */
+export const getTaxRule = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a tax rule to be retrieved
+        const id = req.params.id
+
+        //2) Get query
+        const query = TaxRule.findById(id)
+
+        //3) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(
+            query,
+            req.query
+        ).select()
+
+        //4) Exec query to retrieve tax rule doc match found
+        const DocTaxRule = await QueryModfier.query.exec()
+
+        //5) If no document found, throw err
+        if (!DocTaxRule) {
+            throw new AppError(
+                'No tax rule document found to be retrieve with the id provided.',
+                404
+            )
+        }
+
+        //6) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocTaxRule,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getManyTaxRule = Get one or more tax rule
+ ** ====================================
+ */
+export const getManyTaxRule = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get query
+        const query = TaxRule.find()
+
+        //2) Apply query modifiers to query
+        const QueryModfier = new QueryModifier<typeof query>(query, req.query)
+            .filter()
+            .sort()
+            .select()
+            .paginate()
+
+        //3) Exec query to retrieve tax rule docs match found
+        const DocsTaxRule = await QueryModfier.query.exec()
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsTaxRule.length,
+            data: DocsTaxRule,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** updateTaxRule = Update a single tax rule
+ ** ====================================
+ */
+export const updateTaxRule = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of tax rule to be updated
+        const id = req.params.id
+
+        //2) Get fields from req body
+        const taxRuleToBeUpdated: Partial<ITaxRule> = {
+            name: req.body.name,
+            country: req.body.country,
+            state: req.body.state,
+            tax_class: req.body.tax_class,
+            rate: req.body.rate,
+            price_mode: req.body.price_mode,
+        }
+
+        //3) Validate destination of tax rule, if provided
+        await validateTaxRuleDestination(taxRuleToBeUpdated)
+
+        //4) Update tax rule
+        const DocTaxRule = await TaxRule.findByIdAndUpdate(
+            id,
+            taxRuleToBeUpdated,
+            { new: true, runValidators: true }
+        )
+
+        //5) If no tax rule document found, throw err
+        if (!DocTaxRule) {
+            throw new AppError(
+                'No tax rule document found to be update with the id provided.',
+                404
+            )
+        }
+
+        //6) Return a response
+        res.status(200).json({
+            status: 'success',
+            data: DocTaxRule,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteTaxRule = Delete a single tax rule
+ ** ====================================
+ */
+export const deleteTaxRule = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get id of a tax rule to be deleted
+        const id = req.params.id
+
+        //2) Delete tax rule
+        const DelResults = await TaxRule.deleteOne({ _id: id })
+
+        //3) If no document found, throw err
+        if (!DelResults || DelResults.deletedCount <= 0) {
+            throw new AppError(
+                'No tax rule found to be deleted with the id provided.',
+                404
+            )
+        }
+
+        //4) Send a response
+        res.status(204).json()
+    }
+)
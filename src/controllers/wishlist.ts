@@ -0,0 +1,590 @@
+import crypto from 'crypto'
+import { Request, Response } from 'express'
+import { HydratedDocument } from 'mongoose'
+
+//Models & Types
+import Wishlist, { IWishlist } from '../models/Wishlist'
+import Cart from '../models/Cart'
+import Media, { IMedia } from '../models/Media'
+import Product, { IProduct } from '../models/Product'
+
+//Error Handler
+import { catchAsyncHandler } from '../error handling/errorHandlers'
+import AppError from '../error handling/AppError'
+
+//Packages & Utils
+import makeUrlComplete from '../utils/makeUrlComplete'
+import { withTransaction } from '../packages/transaction'
+import {
+    isSameVariantSelection,
+    validateSelectedVariants,
+} from '../utils/selectedVariants'
+import { addLineToCart } from './cart'
+
+/*
+ ** **
+ ** ** ** MAX WISHLISTS - Number of wishlists a user can have
+ ** **
+ */
+const MAX_WISHLISTS = 20
+
+/**
+ ** ====================================
+ ** getMyWishlists = Get wishlists of current user
+ ** ====================================
+ */
+export const getMyWishlists = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find wishlists of user
+        const DocsWishlist = await Wishlist.find({ owner: req.user._id }).sort({
+            created_at: 1,
+        })
+
+        //2) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: DocsWishlist.length,
+            data: DocsWishlist,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** createMyWishlist = Create a wishlist of current user
+ ** ====================================
+ */
+export const createMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) User must not exceed the number of wishlists allowed
+        const count = await Wishlist.countDocuments({ owner: req.user._id })
+        if (count >= MAX_WISHLISTS) {
+            throw new AppError(
+                `You can have at most ${MAX_WISHLISTS} wishlists.`,
+                400
+            )
+        }
+
+        //2) Create wishlist
+        const DocWishlist = await Wishlist.create({
+            owner: req.user._id,
+            name: req.body.name,
+            items: [],
+        })
+
+        //3) Send a response
+        res.status(201).json({
+            status: 'success',
+            data: DocWishlist,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getMyWishlist = Get a wishlist of current user with its products
+ ** ====================================
+ */
+export const getMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find wishlist of user
+        const DocWishlist = await findMyWishlist(req)
+
+        //2) Populate products, and make their image url complete
+        const items = await populateWishlistItems(DocWishlist, req)
+
+        //3) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: { ...DocWishlist.toJSON(), items },
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** renameMyWishlist = Rename a wishlist of current user
+ ** ====================================
+ */
+export const renameMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Rename wishlist of user
+        const DocWishlist = await Wishlist.findOneAndUpdate(
+            { _id: req.params.id, owner: req.user._id },
+            { name: req.body.name, modified_at: Date.now() },
+            { new: true, runValidators: true }
+        )
+
+        //2) If no doc found, throw err
+        if (!DocWishlist) {
+            throw new AppError('No wishlist found with the id provided.', 404)
+        }
+
+        //3) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocWishlist,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** deleteMyWishlist = Delete a wishlist of current user
+ ** ====================================
+ */
+export const deleteMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Delete wishlist of user
+        const DocWishlist = await Wishlist.findOneAndDelete({
+            _id: req.params.id,
+            owner: req.user._id,
+        })
+
+        //2) If no doc found, throw err
+        if (!DocWishlist) {
+            throw new AppError('No wishlist found with the id provided.', 404)
+        }
+
+        //3) Send a response
+        res.status(204).json()
+    }
+)
+
+/**
+ ** ====================================
+ ** shareMyWishlist = Make a wishlist of current user public via a share slug
+ ** ====================================
+ */
+export const shareMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find wishlist of user
+        const DocWishlist = await findMyWishlist(req)
+
+        //2) If not shared yet, give it a share slug
+        if (!DocWishlist.share_slug) {
+            DocWishlist.share_slug = crypto.randomBytes(12).toString('hex')
+            await DocWishlist.save()
+        }
+
+        //3) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocWishlist,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** unshareMyWishlist = Make a shared wishlist of current user private again
+ ** ====================================
+ */
+export const unshareMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Remove share slug of wishlist
+        const DocWishlist = await Wishlist.findOneAndUpdate(
+            { _id: req.params.id, owner: req.user._id },
+            { $unset: { share_slug: 1 } },
+            { new: true }
+        )
+
+        //2) If no doc found, throw err
+        if (!DocWishlist) {
+            throw new AppError('No wishlist found with the id provided.', 404)
+        }
+
+        //3) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: DocWishlist,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getSharedWishlist = Get a shared wishlist by its share slug
+ ** ====================================
+ */
+export const getSharedWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Find wishlist of share slug
+        const DocWishlist = await Wishlist.findOne({
+            share_slug: req.params.slug,
+        }).populate({ path: 'owner', select: 'name username' })
+
+        //2) If no doc found, throw err
+        if (!DocWishlist) {
+            throw new AppError('No shared wishlist found with this link.', 404)
+        }
+
+        //3) Populate products, and make their image url complete
+        const items = await populateWishlistItems(DocWishlist, req)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: {
+                name: DocWishlist.name,
+                owner: DocWishlist.owner,
+                items,
+                modified_at: DocWishlist.modified_at,
+            },
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** addItemToMyWishlist = Add a product with its selected variants in a wishlist
+ ** ====================================
+ */
+export const addItemToMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Validate
+        if (!req.body.product) {
+            throw new AppError(
+                'Must provide id of the product to add into the wishlist.',
+                400
+            )
+        }
+
+        //2) Find product to be added, if not exist, throw err
+        const DocProduct = await Product.findById(req.body.product)
+        if (!DocProduct) {
+            throw new AppError(
+                'No product exist with the id provided to add into the wishlist.',
+                404
+            )
+        }
+
+        //3) Validate selected variants against variants declared on product
+        const selectedVariants = validateSelectedVariants(
+            DocProduct,
+            req.body.selected_variants
+        )
+
+        //4) Find wishlist of user
+        const DocWishlist = await findMyWishlist(req)
+
+        //5) Product with same variants must not be in wishlist already
+        const isInWishlist = DocWishlist.items.some(
+            (item) =>
+                item.product.equals(DocProduct._id) &&
+                isSameVariantSelection(item.selected_variants, selectedVariants)
+        )
+        if (isInWishlist) {
+            throw new AppError(
+                `[${DocProduct.title}] is already in this wishlist.`,
+                400
+            )
+        }
+
+        //6) Add item, only if wishlist wasn't changed meanwhile
+        const DocWishlistUpdated = await Wishlist.findOneAndUpdate(
+            {
+                _id: DocWishlist._id,
+                [`items.${DocWishlist.items.length}`]: { $exists: false },
+            },
+            {
+                $push: {
+                    items: {
+                        product: DocProduct._id,
+                        selected_variants: selectedVariants,
+                        added_at: Date.now(),
+                    },
+                },
+                $set: { modified_at: Date.now() },
+            },
+            { new: true, runValidators: true }
+        )
+        if (!DocWishlistUpdated) {
+            throw new AppError(
+                'This wishlist was changed meanwhile, please try again.',
+                409
+            )
+        }
+
+        //7) Populate products, and make their image url complete
+        const items = await populateWishlistItems(DocWishlistUpdated, req)
+
+        //8) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: { ...DocWishlistUpdated.toJSON(), items },
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** removeItemFromMyWishlist = Remove an item from a wishlist
+ ** ====================================
+ */
+export const removeItemFromMyWishlist = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Remove item from wishlist of user
+        const DocWishlist = await Wishlist.findOneAndUpdate(
+            {
+                _id: req.params.id,
+                owner: req.user._id,
+                'items._id': req.params.itemId,
+            },
+            {
+                $pull: { items: { _id: req.params.itemId } },
+                $set: { modified_at: Date.now() },
+            },
+            { new: true }
+        )
+
+        //2) If no doc found, throw err
+        if (!DocWishlist) {
+            throw new AppError(
+                'No wishlist item found with the id provided.',
+                404
+            )
+        }
+
+        //3) Populate products, and make their image url complete
+        const items = await populateWishlistItems(DocWishlist, req)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: { ...DocWishlist.toJSON(), items },
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** moveWishlistItemToCart = Move an item of a wishlist into the cart, and reserve its stock
+ ** ====================================
+ */
+export const moveWishlistItemToCart = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get quantity to be added in cart, one by default
+        const quantity =
+            req.body.quantity === undefined ? 1 : Number(req.body.quantity)
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > 1000) {
+            throw new AppError(
+                'Please provide a quantity between 1 and 1000 to add into the cart.',
+                400
+            )
+        }
+
+        //2) Move item and reserve its stock within a transaction
+        const DocWishlist = await withTransaction(async (session) => {
+            //=> Remove item from wishlist of user, if not exist, throw err
+            const DocWishlist = await Wishlist.findOneAndUpdate(
+                {
+                    _id: req.params.id,
+                    owner: req.user._id,
+                    'items._id': req.params.itemId,
+                },
+                {
+                    $pull: { items: { _id: req.params.itemId } },
+                    $set: { modified_at: Date.now() },
+                },
+                { session }
+            )
+            const item = DocWishlist?.items.find(
+                (item) => item._id?.toString() === req.params.itemId
+            )
+            if (!DocWishlist || !item) {
+                throw new AppError(
+                    'No wishlist item found with the id provided.',
+                    404
+                )
+            }
+
+            //=> Find cart of user, if not exist create a new one
+            const DocCart = await Cart.findOneAndUpdate(
+                { owner: req.user._id },
+                { owner: req.user._id },
+                { upsert: true, new: true, runValidators: true, session }
+            )
+
+            //=> Reserve stock of item and add it in cart
+            await addLineToCart(
+                DocCart,
+                {
+                    product: item.product,
+                    selected_variants: item.selected_variants,
+                    quantity,
+                },
+                req.user._id,
+                session
+            )
+
+            //=> Save changes
+            await DocCart.save({ session })
+
+            //=> Return wishlist, less the item moved
+            DocWishlist.items = DocWishlist.items.filter(
+                (curr) => curr !== item
+            )
+            return DocWishlist
+        })
+
+        //3) Populate products, and make their image url complete
+        const items = await populateWishlistItems(DocWishlist, req)
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            data: { ...DocWishlist.toJSON(), items },
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** getMostWishlistedProducts = Get products wishlisted by the most users
+ ** ====================================
+ */
+export const getMostWishlistedProducts = catchAsyncHandler(
+    async (req: Request, res: Response) => {
+        //1) Get number of products to be retrieved
+        const limit = Math.min(Number(req.query.limit) || 10, 100)
+
+        //2) Count users having each product in a wishlist
+        const DocsProduct = await Wishlist.aggregate([
+            {
+                $unwind: { path: '$items' },
+            },
+            {
+                $group: {
+                    _id: { product: '$items.product', owner: '$owner' },
+                },
+            },
+            {
+                $group: {
+                    _id: '$_id.product',
+                    wishlisted_by: { $sum: 1 },
+                },
+            },
+            {
+                $sort: { wishlisted_by: -1 },
+            },
+            {
+                $limit: limit,
+            },
+            {
+                $lookup: {
+                    from: 'products',
+                    foreignField: '_id',
+                    localField: '_id',
+                    as: 'product',
+                },
+            },
+            {
+                $unwind: {
+                    path: '$product',
+                },
+            },
+            {
+                $lookup: {
+                    from: 'media',
+                    foreignField: '_id',
+                    localField: 'product.image',
+                    as: 'image',
+                },
+            },
+            {
+                $unwind: {
+                    path: '$image',
+                    preserveNullAndEmptyArrays: true,
+                },
+            },
+        ])
+
+        //3) Transformed Docs and make url complete for images
+        const transformedDocs = DocsProduct.map(
+            ({
+                product,
+                image,
+                wishlisted_by,
+            }: {
+                product: IProduct
+                image: IMedia
+                wishlisted_by: number
+            }) => ({
+                ...product,
+                image: !image
+                    ? undefined
+                    : {
+                          ...image,
+                          url: makeUrlComplete(image?.url, req),
+                      },
+                wishlisted_by,
+            })
+        )
+
+        //4) Send a response
+        res.status(200).json({
+            status: 'success',
+            results: transformedDocs.length,
+            data: transformedDocs,
+        })
+    }
+)
+
+/**
+ ** ====================================
+ ** findMyWishlist = Find a wishlist of current user, throws if not found
+ ** ====================================
+ */
+const findMyWishlist = async (req: Request) => {
+    //1) Find wishlist of user
+    const DocWishlist = await Wishlist.findOne({
+        _id: req.params.id,
+        owner: req.user._id,
+    })
+
+    //2) If no doc found, throw err
+    if (!DocWishlist) {
+        throw new AppError('No wishlist found with the id provided.', 404)
+    }
+
+    //3) Return wishlist
+    return DocWishlist
+}
+
+/**
+ ** ====================================
+ ** populateWishlistItems = Populate products of a wishlist, and make their image url complete
+ ** ====================================
+ */
+const populateWishlistItems = async (
+    DocWishlist: HydratedDocument<IWishlist>,
+    req: Request
+) => {
+    //1) Populate products
+    await DocWishlist.populate({
+        path: 'items.product',
+        populate: [
+            {
+                path: 'image',
+                model: 'Media',
+            },
+        ],
+    })
+
+    //2) Make image url of product complete, once per image
+    const transformed = new Set<unknown>()
+    return DocWishlist.items
+        .filter((item) => item.product)
+        .map(({ _id, product, selected_variants, added_at }) => {
+            if (
+                product instanceof Product &&
+                product.image instanceof Media &&
+                !transformed.has(product.image)
+            ) {
+                product.image.url = makeUrlComplete(product.image.url, req)
+                transformed.add(product.image)
+            }
+            return { _id, product, selected_variants, added_at }
+        })
+}
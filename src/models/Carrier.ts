@@ -0,0 +1,63 @@
+import { model, Schema } from 'mongoose'
+import validator from 'validator'
+
+/**
+ ** ====================================
+ ** Interface [ICarrier]
+ ** ====================================
+ */
+export interface ICarrier {
+    code: string
+    name: string
+    tracking_url?: string
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [Carrier]
+ ** ====================================
+ */
+const schemaCarrier = new Schema<ICarrier>({
+    code: {
+        type: String,
+        required: [true, 'A carrier must have a code.'],
+        unique: true,
+        trim: true,
+        lowercase: true,
+        maxlength: [30, 'Carrier code must be 30 characters long or less.'],
+    },
+    name: {
+        type: String,
+        required: [true, 'A carrier must have a name.'],
+        trim: true,
+        maxlength: [60, 'Carrier name must be 60 characters long or less.'],
+    },
+    tracking_url: {
+        type: String,
+        trim: true,
+        validate: {
+            validator: function (tracking_url: string) {
+                return (
+                    tracking_url.includes('{tracking_number}') &&
+                    validator.isURL(
+                        tracking_url.replace('{tracking_number}', '0')
+                    )
+                )
+            },
+            message:
+                'Tracking url must be a valid url with a {tracking_number} placeholder.',
+        },
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Model [Carrier]
+ ** ====================================
+ */
+export default model('Carrier', schemaCarrier)
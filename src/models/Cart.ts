@@ -7,16 +7,41 @@ import { model, Schema } from 'mongoose'
  ** ====================================
  */
 export interface ICart {
-    owner: ObjectId
+    owner?: ObjectId
+    guest?: string
     products: Array<{
+        _id?: ObjectId
         product: ObjectId
         selected_variants: Array<{
             name: string
             term: string
         }>
         quantity: number
+        reservation?: {
+            status: 'active' | 'released'
+            expires_at?: Date
+        }
     }>
+    saved_for_later?: Array<{
+        _id?: ObjectId
+        product: ObjectId
+        selected_variants: Array<{
+            name: string
+            term: string
+        }>
+        quantity: number
+        saved_at?: Date
+    }>
+    coupon?: ObjectId
+    shipping_method?: 'standard' | 'express'
+    checkout_currency?: {
+        code: string
+        symbol: string
+        rate: number
+        decimals: number
+    }
     is_owner_notified?: boolean
+    expires_at?: Date
     modified_at?: Date
     created_at?: Date
 }
@@ -30,7 +55,15 @@ const schemaCart = new Schema<ICart>({
     owner: {
         type: ObjectId,
         ref: 'User',
-        required: [true, 'A cart must have an owner.'],
+        required: [
+            function (this: ICart) {
+                return !this.guest
+            },
+            'A cart must have an owner.',
+        ],
+    },
+    guest: {
+        type: String,
     },
     products: [
         {
@@ -66,22 +99,176 @@ const schemaCart = new Schema<ICart>({
                 min: [1, 'A minimum one quanity is allowed.'],
                 max: [1000, 'A maximum 1000 quanity is allowed.'],
             },
+            reservation: {
+                status: {
+                    type: String,
+                    enum: ['active', 'released'],
+                    default: 'active',
+                },
+                expires_at: {
+                    type: Date,
+                },
+            },
+        },
+    ],
+    saved_for_later: [
+        {
+            product: {
+                type: ObjectId,
+                ref: 'Product',
+                required: [
+                    true,
+                    'Must provide id of the product which to be saved for later',
+                ],
+            },
+            selected_variants: [
+                {
+                    name: {
+                        type: String,
+                        required: [
+                            true,
+                            'Variation name value must be provided',
+                        ],
+                    },
+                    term: {
+                        type: String,
+                        required: [
+                            true,
+                            'Variation term value must be provided.',
+                        ],
+                    },
+                },
+            ],
+            quantity: {
+                type: Number,
+                default: 1,
+                min: [1, 'A minimum one quanity is allowed.'],
+                max: [1000, 'A maximum 1000 quanity is allowed.'],
+            },
+            saved_at: {
+                type: Date,
+                default: Date.now,
+            },
         },
     ],
+    coupon: {
+        type: ObjectId,
+        ref: 'Coupon',
+    },
+    shipping_method: {
+        type: String,
+        enum: ['standard', 'express'],
+    },
+    checkout_currency: {
+        code: {
+            type: String,
+        },
+        symbol: {
+            type: String,
+        },
+        rate: {
+            type: Number,
+        },
+        decimals: {
+            type: Number,
+        },
+    },
     is_owner_notified: {
         type: Boolean,
         default: false,
     },
+    expires_at: {
+        type: Date,
+    },
     modified_at: {
         type: Date,
-        default: Date.now(),
+        default: Date.now,
     },
     created_at: {
         type: Date,
-        default: Date.now(),
+        default: Date.now,
     },
 })
 
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaCart.index({
+    'products.reservation.status': 1,
+    'products.reservation.expires_at': 1,
+})
+schemaCart.index({ guest: 1 }, { unique: true, sparse: true })
+schemaCart.index({ expires_at: 1 }, { expireAfterSeconds: 0 })
+
+/**
+ ** ====================================
+ ** MIDDLEWARES [DOCUMENT]
+ ** ====================================
+ */
+/*
+ ** **
+ ** ** ** Fields whose change is a change of cart by its owner, reservations being released aren't
+ ** **
+ */
+const CART_CONTENT_FIELDS = [
+    'products',
+    'saved_for_later',
+    'coupon',
+    'shipping_method',
+]
+const isCartContentPath = (path: string) =>
+    CART_CONTENT_FIELDS.includes(path.split('.')[0]) &&
+    !path.includes('.reservation')
+
+/*
+ ** **
+ ** ** ** Set modified_at when cart is changed, so its owner is reminded of it once again
+ ** **
+ */
+schemaCart.pre('save', function (next) {
+    //1) If content of cart hasn't changed, don't proceed
+    if (!this.isNew && !CART_CONTENT_FIELDS.some((f) => this.isModified(f))) {
+        return next()
+    }
+
+    //2) Set modified_at to current time, and owner as not notified
+    this.modified_at = new Date()
+    this.is_owner_notified = false
+
+    //3) Call next middleware
+    next()
+})
+
+/**
+ ** ====================================
+ ** MIDDLEWARES [QUERY]
+ ** ====================================
+ */
+/*
+ ** **
+ ** ** ** Set modified_at when cart is changed via an update
+ ** **
+ */
+schemaCart.pre(['findOneAndUpdate', 'updateOne'], function (next) {
+    //1) Get paths being updated, of each operator as well
+    const update = this.getUpdate()
+    if (!update || Array.isArray(update)) return next()
+    const paths = Object.entries(update).flatMap(([key, value]) =>
+        key.startsWith('$') ? Object.keys(value || {}) : [key]
+    )
+
+    //2) If content of cart isn't being changed, don't proceed
+    if (!paths.some(isCartContentPath)) return next()
+
+    //3) Set modified_at to current time, and owner as not notified
+    this.set({ modified_at: new Date(), is_owner_notified: false })
+
+    //4) Call next middleware
+    next()
+})
+
 /**
  ** ====================================
  ** Model [Cart]
@@ -13,6 +13,7 @@ export interface ICategory {
     description?: string
     image?: ObjectId
     parent?: ObjectId
+    tax_class?: string
     created_at?: Date
 }
 
@@ -59,6 +60,12 @@ const schemaCategory = new Schema<ICategory>({
         type: ObjectId,
         ref: 'Category',
     },
+    tax_class: {
+        type: String,
+        trim: true,
+        lowercase: true,
+        maxLength: [60, 'Tax class must be less than 60 characters long.'],
+    },
     created_at: {
         type: Date,
         default: Date.now(),
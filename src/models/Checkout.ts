@@ -0,0 +1,123 @@
+import { ObjectId } from 'mongodb'
+import { model, Schema } from 'mongoose'
+import { CartSummary } from '../packages/cartSummary'
+import { PaymentProviderName } from '../packages/payment/PaymentProvider'
+
+/**
+ ** ====================================
+ ** Interface [ICheckout]
+ ** ====================================
+ */
+export interface ICheckout {
+    session_id: string
+    provider: PaymentProviderName
+    customer: ObjectId
+    summary: CartSummary
+    currency: {
+        code: string
+        symbol: string
+        rate: number
+        decimals: number
+    }
+    amount_total: number
+    amount_charged?: number
+    payment_intent_id?: string
+    status?: 'open' | 'completed' | 'expired' | 'refunded'
+    order?: ObjectId
+    failure_reason?: string
+    refund_id?: string
+    expires_at: Date
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [Checkout]
+ ** ====================================
+ */
+const schemaCheckout = new Schema<ICheckout>({
+    session_id: {
+        type: String,
+        required: [true, 'A checkout must have an id of its session.'],
+        unique: true,
+        trim: true,
+    },
+    provider: {
+        type: String,
+        required: [true, 'A checkout must have a payment provider.'],
+    },
+    customer: {
+        type: ObjectId,
+        ref: 'User',
+        required: [true, 'A checkout must have a customer.'],
+    },
+    summary: {
+        type: Object,
+        required: [true, 'A checkout must have a summary of its cart.'],
+    },
+    currency: {
+        code: {
+            type: String,
+            required: [true, 'A checkout must have a currency.'],
+        },
+        symbol: {
+            type: String,
+        },
+        rate: {
+            type: Number,
+            required: [true, 'A checkout must have a currency rate.'],
+        },
+        decimals: {
+            type: Number,
+            required: [true, 'A checkout must have currency decimals.'],
+        },
+    },
+    amount_total: {
+        type: Number,
+        required: [true, 'A checkout must have an amount to be charged.'],
+    },
+    amount_charged: {
+        type: Number,
+    },
+    payment_intent_id: {
+        type: String,
+    },
+    status: {
+        type: String,
+        enum: ['open', 'completed', 'expired', 'refunded'],
+        default: 'open',
+    },
+    order: {
+        type: ObjectId,
+        ref: 'Order',
+    },
+    failure_reason: {
+        type: String,
+    },
+    refund_id: {
+        type: String,
+    },
+    expires_at: {
+        type: Date,
+        required: [true, 'A checkout must have an expiry date.'],
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaCheckout.index({ payment_intent_id: 1 }, { sparse: true })
+schemaCheckout.index({ customer: 1, created_at: -1 })
+
+/**
+ ** ====================================
+ ** Model [Checkout]
+ ** ====================================
+ */
+export default model('Checkout', schemaCheckout)
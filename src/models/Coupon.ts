@@ -0,0 +1,134 @@
+import { ObjectId } from 'mongodb'
+import { model, Schema } from 'mongoose'
+import validator from 'validator'
+
+/**
+ ** ====================================
+ ** Interface [ICoupon]
+ ** ====================================
+ */
+export interface ICoupon {
+    code: string
+    description?: string
+    type: 'percentage' | 'fixed' | 'free_shipping'
+    value: number
+    min_subtotal: number
+    usage_limit?: number
+    usage_limit_per_user?: number
+    times_used?: number
+    categories?: Array<ObjectId>
+    products?: Array<ObjectId>
+    expires_in?: Date
+    created_at?: Date
+}
+
+/*
+ ** **
+ ** ** ** Whether value suits type of coupon
+ ** **
+ */
+export const COUPON_VALUE_MESSAGE =
+    'Coupon value must be between 1 and 100 for a percentage coupon, and more than zero for a fixed one.'
+export const isValidCouponValue = (type: ICoupon['type'], value: number) => {
+    if (type === 'percentage') return value > 0 && value <= 100
+    if (type === 'fixed') return value > 0
+    return true
+}
+
+/**
+ ** ====================================
+ ** Schema [Coupon]
+ ** ====================================
+ */
+const schemaCoupon = new Schema<ICoupon>({
+    code: {
+        type: String,
+        required: [true, 'A coupon must have a code.'],
+        unique: true,
+        trim: true,
+        uppercase: true,
+        maxlength: [30, 'Coupon code must be 30 characters long or less.'],
+        validate: {
+            validator: function (code: string) {
+                return validator.isAlphanumeric(code, 'en-US', {
+                    ignore: /-|_/g,
+                })
+            },
+            message:
+                'Coupon code must contain letters or numbers. No specail characters are allowed except dash and hyphen.',
+        },
+    },
+    description: {
+        type: String,
+        trim: true,
+        maxlength: [
+            500,
+            'Coupon description must be 500 characters long or less.',
+        ],
+    },
+    type: {
+        type: String,
+        enum: ['percentage', 'fixed', 'free_shipping'],
+        required: [
+            true,
+            'Must provide coupon type of one of these values: "percentage", "fixed" or "free_shipping".',
+        ],
+    },
+    value: {
+        type: Number,
+        default: 0,
+        min: [0, 'Coupon value must be zero or more.'],
+        validate: {
+            validator: function (this: ICoupon | undefined, value: number) {
+                //=> On updates there's no document, value is checked against type stored by updateCoupon
+                if (!this?.type) return true
+                return isValidCouponValue(this.type, value)
+            },
+            message: COUPON_VALUE_MESSAGE,
+        },
+    },
+    min_subtotal: {
+        type: Number,
+        default: 0,
+        min: [0, 'Minimum subtotal must be zero or more.'],
+    },
+    usage_limit: {
+        type: Number,
+        min: [1, 'Usage limit must be one or more.'],
+    },
+    usage_limit_per_user: {
+        type: Number,
+        min: [1, 'Usage limit per user must be one or more.'],
+    },
+    times_used: {
+        type: Number,
+        default: 0,
+        min: [0, 'Times used must be zero or more.'],
+    },
+    categories: [
+        {
+            type: ObjectId,
+            ref: 'Category',
+        },
+    ],
+    products: [
+        {
+            type: ObjectId,
+            ref: 'Product',
+        },
+    ],
+    expires_in: {
+        type: Date,
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Model [Coupon]
+ ** ====================================
+ */
+export default model('Coupon', schemaCoupon)
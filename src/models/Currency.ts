@@ -0,0 +1,93 @@
+import { model, Schema } from 'mongoose'
+import validator from 'validator'
+
+/**
+ ** ====================================
+ ** Interface [ICurrency]
+ ** ====================================
+ */
+export interface ICurrency {
+    code: string
+    name: string
+    symbol: string
+    rate: number
+    decimals?: number
+    countries?: Array<string>
+    rate_updated_at?: Date
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [Currency]
+ ** ====================================
+ */
+const schemaCurrency = new Schema<ICurrency>({
+    code: {
+        type: String,
+        required: [true, 'A currency must have a code.'],
+        unique: true,
+        trim: true,
+        lowercase: true,
+        validate: {
+            validator: function (code: string) {
+                return validator.isISO4217(code.toUpperCase())
+            },
+            message: 'Currency code must be a valid ISO 4217 code.',
+        },
+    },
+    name: {
+        type: String,
+        required: [true, 'A currency must have a name.'],
+        trim: true,
+        maxlength: [60, 'Currency name must be 60 characters long or less.'],
+    },
+    symbol: {
+        type: String,
+        required: [true, 'A currency must have a symbol.'],
+        trim: true,
+        maxlength: [5, 'Currency symbol must be 5 characters long or less.'],
+    },
+    rate: {
+        type: Number,
+        required: [
+            true,
+            'Must provide the exchange rate of a currency to the base currency.',
+        ],
+        min: [0.000001, 'Exchange rate must be more than zero.'],
+    },
+    decimals: {
+        type: Number,
+        default: 2,
+        min: [0, 'Decimals must be zero or more.'],
+        max: [3, 'Decimals must be 3 or less.'],
+    },
+    countries: [
+        {
+            type: String,
+            trim: true,
+        },
+    ],
+    rate_updated_at: {
+        type: Date,
+        default: Date.now,
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaCurrency.index({ countries: 1 })
+
+/**
+ ** ====================================
+ ** Model [Currency]
+ ** ====================================
+ */
+export default model('Currency', schemaCurrency)
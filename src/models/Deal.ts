@@ -11,8 +11,31 @@ export interface IDeal {
     title: string
     products: Array<ObjectId>
     image?: ObjectId
+    discount: {
+        type: 'percentage' | 'fixed'
+        value: number
+    }
+    max_quantity_per_customer?: number
+    allocated_quantity?: number
+    units_sold?: number
     starts_from: Date
     expires_in: Date
+    status?: 'scheduled' | 'active' | 'ended'
+}
+
+/*
+ ** **
+ ** ** ** Whether value suits type of discount of deal
+ ** **
+ */
+export const DEAL_DISCOUNT_MESSAGE =
+    'Discount value must be between 1 and 100 for a percentage discount, and more than zero for a fixed one.'
+export const isValidDealDiscount = (
+    type: IDeal['discount']['type'] | undefined,
+    value: number
+) => {
+    if (type === 'percentage') return value > 0 && value <= 100
+    return value > 0
 }
 
 /**
@@ -47,6 +70,50 @@ const schemaDeal = new Schema<IDeal>({
             ref: 'Product',
         },
     ],
+    discount: {
+        type: {
+            type: String,
+            enum: ['percentage', 'fixed'],
+            required: [
+                true,
+                'Must provide discount type of one of these values: "percentage" or "fixed".',
+            ],
+        },
+        value: {
+            type: Number,
+            required: [true, 'A deal must have a discount value.'],
+            validate: {
+                validator: function (this: IDeal | undefined, value: number) {
+                    //=> On updates there's no document, type of discount is checked by updateDeal
+                    return isValidDealDiscount(this?.discount?.type, value)
+                },
+                message: DEAL_DISCOUNT_MESSAGE,
+            },
+        },
+    },
+    max_quantity_per_customer: {
+        type: Number,
+        min: [1, 'Maximum quantity per customer must be one or more.'],
+        validate: {
+            validator: (value?: number | null) =>
+                value == null || Number.isInteger(value),
+            message: 'Maximum quantity per customer must be a whole number.',
+        },
+    },
+    allocated_quantity: {
+        type: Number,
+        min: [1, 'Allocated quantity must be one or more.'],
+        validate: {
+            validator: (value?: number | null) =>
+                value == null || Number.isInteger(value),
+            message: 'Allocated quantity must be a whole number.',
+        },
+    },
+    units_sold: {
+        type: Number,
+        default: 0,
+        min: [0, 'Units sold must be zero or more.'],
+    },
     starts_from: {
         type: Date,
         required: [true, 'A deal must have a starting date.'],
@@ -55,8 +122,20 @@ const schemaDeal = new Schema<IDeal>({
         type: Date,
         required: [true, 'A deal must have an ending date.'],
     },
+    status: {
+        type: String,
+        enum: ['scheduled', 'active', 'ended'],
+        default: 'scheduled',
+    },
 })
 
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaDeal.index({ status: 1, starts_from: 1, expires_in: 1 })
+
 /**
  ** ====================================
  ** Model [Deal]
@@ -1,6 +1,7 @@
 import { ObjectId } from 'mongodb'
 import { model, Schema } from 'mongoose'
 import { subSchemaUserAddress } from './User'
+import { PaymentProviderName } from '../packages/payment/PaymentProvider'
 
 /**
  ** ====================================
@@ -10,11 +11,23 @@ import { subSchemaUserAddress } from './User'
 export interface IOrder {
     customer: ObjectId
     products: Array<{
+        _id?: ObjectId
         product: ObjectId
+        title: string
+        sku: string
+        image_url?: string
+        price: number
+        selling_price: number
         selected_variants: Array<{
             name: string
             term: string
         }>
+        variant_labels: Array<string>
+        deal?: {
+            _id: ObjectId
+            title: string
+            original_selling_price: number
+        }
         quantity: number
     }>
     shipping: {
@@ -29,6 +42,13 @@ export interface IOrder {
             landmark?: string
             property_type: 'house' | 'apartment' | 'business' | 'other'
         }
+        method?: {
+            zone: ObjectId
+            service_level: 'standard' | 'express'
+            name: string
+            billable_weight: number
+        }
+        cost?: number
     }
     billing: {
         address: {
@@ -43,8 +63,22 @@ export interface IOrder {
             property_type: 'house' | 'apartment' | 'business' | 'other'
         }
         payment_method: 'card' | 'cash_on_delivery'
+        payment_provider?: PaymentProviderName
         paid_amount: number
+        discount?: number
+        tax?: number
+        tax_breakdown?: Array<{
+            rule: ObjectId
+            name: string
+            rate: number
+            tax_class: string
+            price_mode: 'inclusive' | 'exclusive'
+            taxable_amount: number
+            amount: number
+        }>
         transaction_id?: string
+        payment_intent_id?: string
+        checkout_session_id?: string
     }
     delivery_status:
         | 'processing'
@@ -54,10 +88,69 @@ export interface IOrder {
         | 'canceled'
         | 'refunded'
         | undefined
+    currency?: {
+        code: string
+        rate: number
+        decimals: number
+        charged_amount: number
+    }
+    coupon?: {
+        _id: ObjectId
+        code: string
+        type: 'percentage' | 'fixed' | 'free_shipping'
+        value: number
+    }
+    refunds?: Array<{
+        _id?: ObjectId
+        amount: number
+        items: Array<{
+            line: ObjectId
+            quantity: number
+        }>
+        reason?: string
+        payment_method: 'card' | 'cash_on_delivery'
+        provider_refund_id?: string
+        status: 'pending' | 'succeeded' | 'failed'
+        refunded_by: ObjectId
+        created_at?: Date
+    }>
+    timeline?: Array<{
+        _id?: ObjectId
+        from?: OrderStatus
+        to: OrderStatus
+        source: 'admin' | 'customer' | 'payment' | 'system'
+        changed_by?: ObjectId
+        note?: string
+        created_at?: Date
+    }>
+    shipments?: Array<{
+        _id?: ObjectId
+        items: Array<{
+            line: ObjectId
+            quantity: number
+        }>
+        carrier: {
+            code: string
+            name: string
+        }
+        tracking_number: string
+        tracking_url?: string
+        shipped_at?: Date
+        delivered_at?: Date
+        created_by: ObjectId
+        created_at?: Date
+    }>
     status_changed_at?: Date
     created_at: Date | undefined
 }
 
+/**
+ ** ====================================
+ ** Type [OrderStatus]
+ ** ====================================
+ */
+export type OrderStatus = Exclude<IOrder['delivery_status'], undefined>
+
 /**
  ** ====================================
  ** Schema [Order]
@@ -75,6 +168,29 @@ const schemaOrder = new Schema<IOrder>({
                 type: ObjectId,
                 ref: 'Product',
             },
+            title: {
+                type: String,
+                required: [true, 'Must provide the product title of a line.'],
+                trim: true,
+            },
+            sku: {
+                type: String,
+                required: [true, 'Must provide the product sku of a line.'],
+                trim: true,
+            },
+            image_url: {
+                type: String,
+            },
+            price: {
+                type: Number,
+                required: [true, 'Must provide the unit price of a line.'],
+                min: [0, 'Unit price must be zero or more.'],
+            },
+            selling_price: {
+                type: Number,
+                required: [true, 'Must provide the selling price of a line.'],
+                min: [0, 'Selling price must be zero or more.'],
+            },
             selected_variants: [
                 {
                     name: {
@@ -93,6 +209,24 @@ const schemaOrder = new Schema<IOrder>({
                     },
                 },
             ],
+            variant_labels: [
+                {
+                    type: String,
+                },
+            ],
+            deal: {
+                _id: {
+                    type: ObjectId,
+                    ref: 'Deal',
+                },
+                title: {
+                    type: String,
+                },
+                original_selling_price: {
+                    type: Number,
+                    min: [0, 'Original selling price must be zero or more.'],
+                },
+            },
             quantity: {
                 type: Number,
                 default: 1,
@@ -103,6 +237,28 @@ const schemaOrder = new Schema<IOrder>({
     ],
     shipping: {
         address: { ...subSchemaUserAddress },
+        method: {
+            zone: {
+                type: ObjectId,
+                ref: 'ShippingZone',
+            },
+            service_level: {
+                type: String,
+                enum: ['standard', 'express'],
+            },
+            name: {
+                type: String,
+            },
+            billable_weight: {
+                type: Number,
+                min: [0, 'Billable weight must be zero or more.'],
+            },
+        },
+        cost: {
+            type: Number,
+            default: 0,
+            min: [0, 'Shipping cost must be zero or more.'],
+        },
     },
     billing: {
         address: { ...subSchemaUserAddress },
@@ -113,12 +269,54 @@ const schemaOrder = new Schema<IOrder>({
                 'Must provide payment method of one of these values: "card" or "cash_on_delivery".',
             ],
         },
+        payment_provider: {
+            type: String,
+            enum: ['stripe', 'cash_on_delivery', 'fake'],
+        },
         paid_amount: {
             type: Number,
             required: 'Must provide the "paid_amount" of an order.',
             min: [0, 'Paid amount must be zero or more.'],
             max: [1000000000, 'Paid amount must be less than 1 billion.'],
         },
+        discount: {
+            type: Number,
+            default: 0,
+            min: [0, 'Discount must be zero or more.'],
+        },
+        tax: {
+            type: Number,
+            default: 0,
+            min: [0, 'Tax must be zero or more.'],
+        },
+        tax_breakdown: [
+            {
+                rule: {
+                    type: ObjectId,
+                    ref: 'TaxRule',
+                },
+                name: {
+                    type: String,
+                },
+                rate: {
+                    type: Number,
+                },
+                tax_class: {
+                    type: String,
+                },
+                price_mode: {
+                    type: String,
+                    enum: ['inclusive', 'exclusive'],
+                },
+                taxable_amount: {
+                    type: Number,
+                },
+                amount: {
+                    type: Number,
+                    min: [0, 'Tax amount must be zero or more.'],
+                },
+            },
+        ],
         transaction_id: {
             type: String,
             validate: {
@@ -129,6 +327,20 @@ const schemaOrder = new Schema<IOrder>({
                 message: 'Please provide a valid transaction id.',
             },
         },
+        payment_intent_id: {
+            type: String,
+            validate: {
+                validator: function (id: string) {
+                    if (!id) return true
+                    return /^pi_[a-zA-Z0-9]{1,80}$/.test(id)
+                },
+                message: 'Please provide a valid payment intent id.',
+            },
+        },
+        checkout_session_id: {
+            type: String,
+            trim: true,
+        },
     },
     delivery_status: {
         type: String,
@@ -142,6 +354,210 @@ const schemaOrder = new Schema<IOrder>({
         ],
         default: 'processing',
     },
+    currency: {
+        code: {
+            type: String,
+            lowercase: true,
+        },
+        rate: {
+            type: Number,
+            min: [0.000001, 'Exchange rate must be more than zero.'],
+        },
+        decimals: {
+            type: Number,
+            min: [0, 'Decimals must be zero or more.'],
+        },
+        charged_amount: {
+            type: Number,
+            min: [0, 'Charged amount must be zero or more.'],
+        },
+    },
+    coupon: {
+        _id: {
+            type: ObjectId,
+            ref: 'Coupon',
+        },
+        code: {
+            type: String,
+        },
+        type: {
+            type: String,
+            enum: ['percentage', 'fixed', 'free_shipping'],
+        },
+        value: {
+            type: Number,
+        },
+    },
+    refunds: [
+        {
+            amount: {
+                type: Number,
+                required: [true, 'Must provide the amount of a refund.'],
+                min: [0.01, 'Refund amount must be more than zero.'],
+            },
+            items: [
+                {
+                    line: {
+                        type: ObjectId,
+                        required: [
+                            true,
+                            'Must provide the order line of a refunded item.',
+                        ],
+                    },
+                    quantity: {
+                        type: Number,
+                        required: [
+                            true,
+                            'Must provide the quantity of a refunded item.',
+                        ],
+                        min: [1, 'A minimum one quanity is allowed.'],
+                    },
+                },
+            ],
+            reason: {
+                type: String,
+                trim: true,
+                maxlength: [
+                    500,
+                    'Refund reason must be less than or equal to 500 characters.',
+                ],
+            },
+            payment_method: {
+                type: String,
+                enum: ['card', 'cash_on_delivery'],
+                required: [true, 'Must provide payment method of a refund.'],
+            },
+            provider_refund_id: {
+                type: String,
+            },
+            status: {
+                type: String,
+                enum: ['pending', 'succeeded', 'failed'],
+                default: 'pending',
+            },
+            refunded_by: {
+                type: ObjectId,
+                ref: 'User',
+                required: [true, 'Must provide who made the refund.'],
+            },
+            created_at: {
+                type: Date,
+                default: Date.now,
+            },
+        },
+    ],
+    timeline: [
+        {
+            from: {
+                type: String,
+                enum: [
+                    'processing',
+                    'pending_payment',
+                    'on_hold',
+                    'completed',
+                    'canceled',
+                    'refunded',
+                ],
+            },
+            to: {
+                type: String,
+                enum: [
+                    'processing',
+                    'pending_payment',
+                    'on_hold',
+                    'completed',
+                    'canceled',
+                    'refunded',
+                ],
+                required: [true, 'Must provide the status changed to.'],
+            },
+            source: {
+                type: String,
+                enum: ['admin', 'customer', 'payment', 'system'],
+                required: [true, 'Must provide the source of a change.'],
+            },
+            changed_by: {
+                type: ObjectId,
+                ref: 'User',
+            },
+            note: {
+                type: String,
+                trim: true,
+                maxlength: [
+                    500,
+                    'Note must be less than or equal to 500 characters.',
+                ],
+            },
+            created_at: {
+                type: Date,
+                default: Date.now,
+            },
+        },
+    ],
+    shipments: [
+        {
+            items: [
+                {
+                    line: {
+                        type: ObjectId,
+                        required: [
+                            true,
+                            'Must provide the order line of a shipped item.',
+                        ],
+                    },
+                    quantity: {
+                        type: Number,
+                        required: [
+                            true,
+                            'Must provide the quantity of a shipped item.',
+                        ],
+                        min: [1, 'A minimum one quanity is allowed.'],
+                    },
+                },
+            ],
+            carrier: {
+                code: {
+                    type: String,
+                    required: [true, 'Must provide carrier of a shipment.'],
+                },
+                name: {
+                    type: String,
+                    required: [true, 'Must provide carrier of a shipment.'],
+                },
+            },
+            tracking_number: {
+                type: String,
+                trim: true,
+                required: [
+                    true,
+                    'Must provide the tracking number of a shipment.',
+                ],
+                maxlength: [
+                    60,
+                    'Tracking number must be 60 characters long or less.',
+                ],
+            },
+            tracking_url: {
+                type: String,
+            },
+            shipped_at: {
+                type: Date,
+                default: Date.now,
+            },
+            delivered_at: {
+                type: Date,
+            },
+            created_by: {
+                type: ObjectId,
+                ref: 'User',
+                required: [true, 'Must provide who made the shipment.'],
+            },
+            created_at: {
+                type: Date,
+                default: Date.now,
+            },
+        },
+    ],
     status_changed_at: {
         type: Date,
         default: Date.now(),
@@ -152,6 +568,14 @@ const schemaOrder = new Schema<IOrder>({
     },
 })
 
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaOrder.index({ 'billing.payment_intent_id': 1 }, { sparse: true })
+schemaOrder.index({ 'billing.checkout_session_id': 1 }, { sparse: true })
+
 /**
  ** ====================================
  ** Model [Order]
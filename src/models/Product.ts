@@ -1,9 +1,10 @@
 import { ObjectId } from 'mongodb'
-import { Schema, model } from 'mongoose'
+import { Schema, model, Model } from 'mongoose'
 import validator from 'validator'
 import Cart from './Cart'
-import Order from './Order'
 import User from './User'
+import Wishlist from './Wishlist'
+import ProductAlert from './ProductAlert'
 
 /**
  ** ====================================
@@ -45,16 +46,50 @@ export interface IProduct {
             ]
         }
     ]
+    variant_combinations?: Array<{
+        _id?: ObjectId
+        sku: string
+        terms: Array<{
+            name: string
+            term: string
+        }>
+        stock: number
+        price?: number
+        selling_price?: number
+        image?: ObjectId
+    }>
     staff_picked?: boolean
     created_at?: Date
 }
 
+/**
+ ** ====================================
+ ** Interface [IProductMethods]
+ ** ====================================
+ */
+export interface IProductMethods {
+    findVariantCombination: (
+        selected_variants?: Array<{ name: string; term: string }>
+    ) => NonNullable<IProduct['variant_combinations']>[number] | undefined
+    getPrices: (selected_variants?: Array<{ name: string; term: string }>) => {
+        price: number
+        selling_price: number
+    }
+}
+
+/**
+ ** ====================================
+ ** Type [ProductModel]
+ ** ====================================
+ */
+type ProductModel = Model<IProduct, typeof Object, IProductMethods>
+
 /**
  ** ====================================
  ** Schema [Product]
  ** ====================================
  */
-const schemaProduct = new Schema<IProduct>({
+const schemaProduct = new Schema<IProduct, ProductModel, IProductMethods>({
     sku: {
         type: String,
         required: [true, 'A sku for a product must be provided.'],
@@ -220,6 +255,78 @@ const schemaProduct = new Schema<IProduct>({
             ],
         },
     ],
+    variant_combinations: [
+        {
+            sku: {
+                type: String,
+                required: [
+                    true,
+                    'A sku for a variant combination must be provided.',
+                ],
+                maxlength: [
+                    20,
+                    'A variant combination sku must be 20 characters long or less.',
+                ],
+                trim: true,
+                validate: [
+                    validator.isAlphanumeric,
+                    'Variant combination sku must only contain letters or numbers. No special characters or whitespaces are allowed.',
+                ],
+            },
+            terms: [
+                {
+                    name: {
+                        type: String,
+                        required: [
+                            true,
+                            'Variation name value must be provided',
+                        ],
+                    },
+                    term: {
+                        type: String,
+                        required: [
+                            true,
+                            'Variation term value must be provided.',
+                        ],
+                    },
+                },
+            ],
+            stock: {
+                type: Number,
+                required: [
+                    true,
+                    'Stock of a variant combination must be provided.',
+                ],
+                min: [
+                    0,
+                    'Stock of a variant combination must be zero or more.',
+                ],
+                max: [
+                    10000000000,
+                    'Stock should be below the amount of 10 billion.',
+                ],
+            },
+            price: {
+                type: Number,
+                min: [1, 'A price should be above the amount of zero.'],
+                max: [
+                    10000000000,
+                    'A price should be below the amount of 10 billion.',
+                ],
+            },
+            selling_price: {
+                type: Number,
+                max: [
+                    10000000000,
+                    'Selling price should be below the amount of 10 billion.',
+                ],
+            },
+            image: {
+                type: ObjectId,
+                ref: 'Media',
+            },
+        },
+    ],
     staff_picked: {
         type: Boolean,
         default: false,
@@ -263,20 +370,76 @@ schemaProduct.pre<{ _conditions: { _id: string } }>(
                 { $pull: { products: { product: id } } }
             )
 
-            //3) Delete all orders with this product in it
-            await Order.deleteMany({ product: id })
-
-            //4) Remove deleted product from user's history
+            //3) Remove deleted product from user's history
             await User.updateMany(
                 { 'history.product': id },
                 { $pull: { history: { product: id } } }
             )
+
+            //4) Remove deleted product from all users' wishlists
+            await Wishlist.updateMany(
+                { 'items.product': id },
+                { $pull: { items: { product: id } } }
+            )
+
+            //5) Delete all alerts of deleted product
+            await ProductAlert.deleteMany({ product: id })
         }
 
         next()
     }
 )
 
+/**
+ ** ====================================
+ ** INSTANCE METHODS
+ ** ====================================
+ */
+/*
+ ** **
+ ** ** ** Find variant combination matching the selected variants
+ ** **
+ */
+schemaProduct.methods.findVariantCombination = function (
+    this: IProduct,
+    selected_variants: Array<{ name: string; term: string }> = []
+) {
+    return this.variant_combinations?.find(
+        (combination) =>
+            combination.terms.length === selected_variants.length &&
+            combination.terms.every((combTerm) =>
+                selected_variants.some(
+                    (selected) =>
+                        selected.name === combTerm.name &&
+                        selected.term === combTerm.term
+                )
+            )
+    )
+}
+
+/*
+ ** **
+ ** ** ** Get prices of product or its variant combination
+ ** **
+ */
+schemaProduct.methods.getPrices = function (
+    this: IProduct & IProductMethods,
+    selected_variants: Array<{ name: string; term: string }> = []
+) {
+    //1) Find variant combination matching the selected variants
+    const combination = this.findVariantCombination(selected_variants)
+
+    //2) Combination price overrides the product price
+    const price = combination?.price || this.price
+    const selling_price =
+        combination?.selling_price ||
+        (combination?.price ? undefined : this.selling_price) ||
+        price
+
+    //3) Return prices
+    return { price, selling_price }
+}
+
 /**
  ** ====================================
  ** Model [Product]
@@ -0,0 +1,108 @@
+import { ObjectId } from 'mongodb'
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [IProductAlert]
+ ** ====================================
+ */
+export interface IProductAlert {
+    user: ObjectId
+    product: ObjectId
+    selected_variants: Array<{
+        name: string
+        term: string
+    }>
+    type: 'back_in_stock' | 'price_drop'
+    price?: number
+    status?: 'active' | 'closed'
+    closed_at?: Date
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Type [ProductAlertType]
+ ** ====================================
+ */
+export type ProductAlertType = IProductAlert['type']
+
+/**
+ ** ====================================
+ ** Schema [ProductAlert]
+ ** ====================================
+ */
+const schemaProductAlert = new Schema<IProductAlert>({
+    user: {
+        type: ObjectId,
+        ref: 'User',
+        required: [true, 'A product alert must be of a user.'],
+    },
+    product: {
+        type: ObjectId,
+        ref: 'Product',
+        required: [true, 'A product alert must be of a product.'],
+    },
+    selected_variants: [
+        {
+            name: {
+                type: String,
+                required: [
+                    true,
+                    'Must provide the name of a selected variant.',
+                ],
+            },
+            term: {
+                type: String,
+                required: [
+                    true,
+                    'Must provide the term of a selected variant.',
+                ],
+            },
+        },
+    ],
+    type: {
+        type: String,
+        enum: {
+            values: ['back_in_stock', 'price_drop'],
+            message: 'Alert type must be either back_in_stock or price_drop.',
+        },
+        required: [true, 'A product alert must have a type.'],
+    },
+    price: {
+        type: Number,
+        required: [
+            function (this: IProductAlert) {
+                return this.type === 'price_drop'
+            },
+            'A price drop alert must have the price it was subscribed at.',
+        ],
+    },
+    status: {
+        type: String,
+        enum: ['active', 'closed'],
+        default: 'active',
+    },
+    closed_at: {
+        type: Date,
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaProductAlert.index({ product: 1, type: 1, status: 1 })
+schemaProductAlert.index({ user: 1, created_at: -1 })
+
+/**
+ ** ====================================
+ ** Model [ProductAlert]
+ ** ====================================
+ */
+export default model('ProductAlert', schemaProductAlert)
@@ -0,0 +1,179 @@
+import { ObjectId } from 'mongodb'
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [IReturn]
+ ** ====================================
+ */
+export interface IReturn {
+    order: ObjectId
+    customer: ObjectId
+    items: Array<{
+        _id?: ObjectId
+        line: ObjectId
+        title: string
+        quantity: number
+        reason:
+            | 'damaged'
+            | 'defective'
+            | 'wrong_item'
+            | 'not_as_described'
+            | 'no_longer_needed'
+            | 'other'
+    }>
+    comment?: string
+    images?: Array<ObjectId>
+    status?: 'requested' | 'approved' | 'rejected' | 'refunded'
+    resolution_note?: string
+    reviewed_by?: ObjectId
+    reviewed_at?: Date
+    refund?: {
+        _id: ObjectId
+        amount: number
+        created_at?: Date
+    }
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Type [ReturnStatus]
+ ** ====================================
+ */
+export type ReturnStatus = NonNullable<IReturn['status']>
+
+/**
+ ** ====================================
+ ** Schema [Return]
+ ** ====================================
+ */
+const schemaReturn = new Schema<IReturn>({
+    order: {
+        type: ObjectId,
+        ref: 'Order',
+        required: [true, 'A return must be of an order.'],
+    },
+    customer: {
+        type: ObjectId,
+        ref: 'User',
+        required: [true, 'A return must have a customer.'],
+    },
+    items: {
+        type: [
+            {
+                line: {
+                    type: ObjectId,
+                    required: [
+                        true,
+                        'Must provide the order line of a returned item.',
+                    ],
+                },
+                title: {
+                    type: String,
+                    required: [
+                        true,
+                        'Must provide the title of a returned item.',
+                    ],
+                },
+                quantity: {
+                    type: Number,
+                    required: [
+                        true,
+                        'Must provide the quantity of a returned item.',
+                    ],
+                    min: [1, 'A minimum one quanity is allowed.'],
+                },
+                reason: {
+                    type: String,
+                    enum: {
+                        values: [
+                            'damaged',
+                            'defective',
+                            'wrong_item',
+                            'not_as_described',
+                            'no_longer_needed',
+                            'other',
+                        ],
+                        message:
+                            'Return reason must be one of: damaged, defective, wrong_item, not_as_described, no_longer_needed or other.',
+                    },
+                    required: [
+                        true,
+                        'Must provide the reason of a returned item.',
+                    ],
+                },
+            },
+        ],
+        validate: {
+            validator: function (items: IReturn['items']) {
+                return items.length > 0
+            },
+            message: 'A return must have at least one item.',
+        },
+    },
+    comment: {
+        type: String,
+        trim: true,
+        maxlength: [
+            600,
+            'Return comment must be less than or equal to 600 characters.',
+        ],
+    },
+    images: [
+        {
+            type: ObjectId,
+            ref: 'Media',
+        },
+    ],
+    status: {
+        type: String,
+        enum: ['requested', 'approved', 'rejected', 'refunded'],
+        default: 'requested',
+    },
+    resolution_note: {
+        type: String,
+        trim: true,
+        maxlength: [
+            500,
+            'Resolution note must be less than or equal to 500 characters.',
+        ],
+    },
+    reviewed_by: {
+        type: ObjectId,
+        ref: 'User',
+    },
+    reviewed_at: {
+        type: Date,
+    },
+    refund: {
+        _id: {
+            type: ObjectId,
+        },
+        amount: {
+            type: Number,
+        },
+        created_at: {
+            type: Date,
+        },
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaReturn.index({ order: 1 })
+schemaReturn.index({ customer: 1, created_at: -1 })
+
+/**
+ ** ====================================
+ ** Model [Return]
+ ** ====================================
+ */
+export default model('Return', schemaReturn)
@@ -0,0 +1,181 @@
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [IShippingZone]
+ ** ====================================
+ */
+export interface IShippingZone {
+    name: string
+    regions: Array<{
+        country: string
+        states?: Array<string>
+    }>
+    is_fallback?: boolean
+    volumetric_divisor?: number
+    methods: Array<{
+        service_level: 'standard' | 'express'
+        name: string
+        rates: Array<{
+            max_weight: number
+            price: number
+        }>
+        price_per_extra_kg?: number
+        free_shipping_threshold?: number
+        estimated_days?: {
+            min: number
+            max: number
+        }
+    }>
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [ShippingZone]
+ ** ====================================
+ */
+const schemaShippingZone = new Schema<IShippingZone>({
+    name: {
+        type: String,
+        required: [true, 'A shipping zone must have a name.'],
+        unique: true,
+        trim: true,
+        maxlength: [100, 'Zone name must be 100 characters long or less.'],
+    },
+    regions: [
+        {
+            country: {
+                type: String,
+                required: [true, 'Must provide "country" of a zone region.'],
+                trim: true,
+            },
+            states: [
+                {
+                    type: String,
+                    trim: true,
+                },
+            ],
+        },
+    ],
+    is_fallback: {
+        type: Boolean,
+        default: false,
+    },
+    volumetric_divisor: {
+        type: Number,
+        default: 5000,
+        min: [1, 'Volumetric divisor must be one or more.'],
+    },
+    methods: {
+        type: [
+            {
+                service_level: {
+                    type: String,
+                    enum: ['standard', 'express'],
+                    required: [
+                        true,
+                        'Must provide service level of one of these values: "standard" or "express".',
+                    ],
+                },
+                name: {
+                    type: String,
+                    required: [true, 'A shipping method must have a name.'],
+                    trim: true,
+                    maxlength: [
+                        100,
+                        'Method name must be 100 characters long or less.',
+                    ],
+                },
+                rates: {
+                    type: [
+                        {
+                            max_weight: {
+                                type: Number,
+                                required: [
+                                    true,
+                                    'Must provide the maximum weight in kg of a rate.',
+                                ],
+                                min: [
+                                    0,
+                                    'Maximum weight must be zero or more.',
+                                ],
+                            },
+                            price: {
+                                type: Number,
+                                required: [
+                                    true,
+                                    'Must provide the price of a rate.',
+                                ],
+                                min: [0, 'Rate price must be zero or more.'],
+                            },
+                        },
+                    ],
+                    validate: {
+                        validator: function (
+                            rates: Array<{ max_weight: number }>
+                        ) {
+                            return (
+                                rates.length > 0 &&
+                                rates.every(
+                                    (rate, ind) =>
+                                        ind === 0 ||
+                                        rate.max_weight >
+                                            rates[ind - 1].max_weight
+                                )
+                            )
+                        },
+                        message:
+                            'A shipping method must have one or more rates, sorted by increasing maximum weight.',
+                    },
+                },
+                price_per_extra_kg: {
+                    type: Number,
+                    min: [0, 'Price per extra kg must be zero or more.'],
+                },
+                free_shipping_threshold: {
+                    type: Number,
+                    min: [0, 'Free shipping threshold must be zero or more.'],
+                },
+                estimated_days: {
+                    min: {
+                        type: Number,
+                        min: [0, 'Estimated days must be zero or more.'],
+                    },
+                    max: {
+                        type: Number,
+                        min: [0, 'Estimated days must be zero or more.'],
+                    },
+                },
+            },
+        ],
+        validate: {
+            validator: function (methods: Array<{ service_level: string }>) {
+                return (
+                    new Set(methods.map((method) => method.service_level))
+                        .size === methods.length
+                )
+            },
+            message:
+                'A shipping zone can have only one method per service level.',
+        },
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaShippingZone.index({ 'regions.country': 1 })
+
+/**
+ ** ====================================
+ ** Model [ShippingZone]
+ ** ====================================
+ */
+export default model('ShippingZone', schemaShippingZone)
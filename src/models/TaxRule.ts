@@ -0,0 +1,75 @@
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [ITaxRule]
+ ** ====================================
+ */
+export interface ITaxRule {
+    name: string
+    country: string
+    state?: string
+    tax_class?: string
+    rate: number
+    price_mode?: 'inclusive' | 'exclusive'
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [TaxRule]
+ ** ====================================
+ */
+const schemaTaxRule = new Schema<ITaxRule>({
+    name: {
+        type: String,
+        required: [true, 'A tax rule must have a name.'],
+        trim: true,
+        maxlength: [60, 'Tax rule name must be 60 characters long or less.'],
+    },
+    country: {
+        type: String,
+        required: [true, 'Must provide "country" of a tax rule.'],
+        trim: true,
+    },
+    state: {
+        type: String,
+        trim: true,
+    },
+    tax_class: {
+        type: String,
+        trim: true,
+        lowercase: true,
+        default: 'standard',
+        maxlength: [60, 'Tax class must be 60 characters long or less.'],
+    },
+    rate: {
+        type: Number,
+        required: [true, 'Must provide the rate in percent of a tax rule.'],
+        min: [0, 'Tax rate must be zero or more.'],
+        max: [100, 'Tax rate must be 100 or less.'],
+    },
+    price_mode: {
+        type: String,
+        enum: ['inclusive', 'exclusive'],
+        default: 'exclusive',
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaTaxRule.index({ country: 1, state: 1, tax_class: 1 }, { unique: true })
+
+/**
+ ** ====================================
+ ** Model [TaxRule]
+ ** ====================================
+ */
+export default model('TaxRule', schemaTaxRule)
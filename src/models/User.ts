@@ -7,6 +7,8 @@ import crypto from 'crypto'
 
 import Review from './Review'
 import Order from './Order'
+import Wishlist from './Wishlist'
+import ProductAlert from './ProductAlert'
 
 /**
  ** ====================================
@@ -375,6 +377,12 @@ schemaUser.pre<{ _conditions: { _id: string } }>(
 
             //3) Delete all orders by this user
             await Order.deleteMany({ customer: id })
+
+            //4) Delete all wishlists of this user
+            await Wishlist.deleteMany({ owner: id })
+
+            //5) Delete all product alerts of this user
+            await ProductAlert.deleteMany({ user: id })
         }
 
         next()
@@ -0,0 +1,78 @@
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [IWebhookEvent]
+ ** ====================================
+ */
+export interface IWebhookEvent {
+    event_id: string
+    type: string
+    status: 'pending' | 'processing' | 'processed' | 'failed'
+    attempts: number
+    payload: object
+    last_error?: string
+    processing_started_at?: Date
+    processed_at?: Date
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [WebhookEvent]
+ ** ====================================
+ */
+const schemaWebhookEvent = new Schema<IWebhookEvent>({
+    event_id: {
+        type: String,
+        required: [true, 'A webhook event must have an event id.'],
+        unique: true,
+        trim: true,
+    },
+    type: {
+        type: String,
+        required: [true, 'A webhook event must have a type.'],
+        trim: true,
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'processing', 'processed', 'failed'],
+        default: 'pending',
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+        min: [0, 'Attempts must be zero or more.'],
+    },
+    payload: {
+        type: Object,
+        required: [true, 'A webhook event must have a payload.'],
+    },
+    last_error: {
+        type: String,
+    },
+    processing_started_at: {
+        type: Date,
+    },
+    processed_at: {
+        type: Date,
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaWebhookEvent.index({ status: 1, created_at: -1 })
+
+/**
+ ** ====================================
+ ** Model [WebhookEvent]
+ ** ====================================
+ */
+export default model('WebhookEvent', schemaWebhookEvent)
@@ -0,0 +1,112 @@
+import { ObjectId } from 'mongodb'
+import { model, Schema } from 'mongoose'
+
+/**
+ ** ====================================
+ ** Interface [IWishlist]
+ ** ====================================
+ */
+export interface IWishlist {
+    owner: ObjectId
+    name: string
+    items: Array<{
+        _id?: ObjectId
+        product: ObjectId
+        selected_variants: Array<{
+            name: string
+            term: string
+        }>
+        added_at?: Date
+    }>
+    share_slug?: string
+    modified_at?: Date
+    created_at?: Date
+}
+
+/**
+ ** ====================================
+ ** Schema [Wishlist]
+ ** ====================================
+ */
+const schemaWishlist = new Schema<IWishlist>({
+    owner: {
+        type: ObjectId,
+        ref: 'User',
+        required: [true, 'A wishlist must have an owner.'],
+    },
+    name: {
+        type: String,
+        required: [true, 'A wishlist must have a name.'],
+        trim: true,
+        maxlength: [60, 'Wishlist name must be 60 characters long or less.'],
+    },
+    items: {
+        type: [
+            {
+                product: {
+                    type: ObjectId,
+                    ref: 'Product',
+                    required: [
+                        true,
+                        'Must provide the product of a wishlist item.',
+                    ],
+                },
+                selected_variants: [
+                    {
+                        name: {
+                            type: String,
+                            required: [
+                                true,
+                                'Must provide the name of a selected variant.',
+                            ],
+                        },
+                        term: {
+                            type: String,
+                            required: [
+                                true,
+                                'Must provide the term of a selected variant.',
+                            ],
+                        },
+                    },
+                ],
+                added_at: {
+                    type: Date,
+                    default: Date.now,
+                },
+            },
+        ],
+        validate: {
+            validator: function (items: IWishlist['items']) {
+                return items.length <= 200
+            },
+            message: 'A wishlist can have at most 200 items.',
+        },
+    },
+    share_slug: {
+        type: String,
+    },
+    modified_at: {
+        type: Date,
+        default: Date.now,
+    },
+    created_at: {
+        type: Date,
+        default: Date.now,
+    },
+})
+
+/**
+ ** ====================================
+ ** Indexes
+ ** ====================================
+ */
+schemaWishlist.index({ owner: 1, name: 1 }, { unique: true })
+schemaWishlist.index({ share_slug: 1 }, { unique: true, sparse: true })
+schemaWishlist.index({ 'items.product': 1 })
+
+/**
+ ** ====================================
+ ** Model [Wishlist]
+ ** ====================================
+ */
+export default model('Wishlist', schemaWishlist)
@@ -43,7 +43,7 @@ export default class QueryModifier<QueryType> {
      */
     filter = () => {
         //1) Fields to exclude
-        const excludeFields = ['page', 'limit', 'sort', 'fields']
+        const excludeFields = ['page', 'limit', 'sort', 'fields', 'currency']
 
         //2) Remove unwanting fields
         let queryObject =
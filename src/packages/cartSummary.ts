@@ -0,0 +1,400 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Coupon, { ICoupon } from '../models/Coupon'
+import { ICart } from '../models/Cart'
+import { DealSummary, PriceSegment, priceLines } from './pricing'
+import { calcCouponDiscount, CouponLine } from '../utils/coupon'
+import {
+    getShippingOptions,
+    hasShippingZones,
+    pickShippingOption,
+    ServiceLevel,
+    ShippingLine,
+    ShippingOption,
+} from './shipping'
+import { calcTax, TaxBreakdown } from './tax'
+import { convertPrice, CurrencyRate, resolveCurrency } from './currency'
+
+/**
+ ** ==========================================================
+ ** Type [CartSummary] - Prices of a cart, from its lines up to
+ ** the grand total to be charged
+ ** ==========================================================
+ */
+export type CartSummary = {
+    lines: Array<{
+        _id?: ObjectId
+        product: ObjectId
+        selected_variants: ICart['products'][number]['selected_variants']
+        quantity: number
+        price: number
+        selling_price: number
+        deal_price?: number
+        deal?: DealSummary
+        segments: Array<PriceSegment>
+        line_total: number
+    }>
+    subtotal: number
+    discounts: {
+        coupon: number
+        total: number
+    }
+    coupon?: {
+        _id: ObjectId
+        code: string
+        type: ICoupon['type']
+        value: number
+        free_shipping: boolean
+    }
+    coupon_error?: string
+    shipping_options: Array<ShippingOption>
+    shipping_method?: ShippingOption
+    shipping_error?: string
+    shipping: number
+    tax: number
+    tax_breakdown: TaxBreakdown
+    grand_total: number
+    currency: CurrencyRate
+}
+
+/**
+ ** ==========================================================
+ ** roundPrice - Round price to cents
+ ** ==========================================================
+ */
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+/**
+ ** ==========================================================
+ ** getCartCoupon - Get coupon applied to cart with its discount
+ ** on the lines provided, returns null if no coupon is applied
+ ** ==========================================================
+ */
+const getCartCoupon = async (
+    coupon_id: ObjectId | undefined,
+    lines: Array<CouponLine>,
+    user_id: ObjectId | undefined,
+    enforce: boolean,
+    session?: ClientSession
+) => {
+    //1) If no coupon applied, or no owner to use it, return
+    if (!coupon_id || !user_id) return null
+
+    //2) Find coupon
+    const DocCoupon = await Coupon.findById(coupon_id).session(session || null)
+
+    //3) If coupon no longer exists, throw err when enforced, else ignore it
+    if (!DocCoupon) {
+        if (!enforce) return null
+        throw new AppError(
+            'The coupon applied to your cart no longer exists, please remove it.',
+            400
+        )
+    }
+
+    //4) Calc discount of coupon
+    const { discount, free_shipping } = await calcCouponDiscount(
+        DocCoupon,
+        lines,
+        user_id,
+        { enforce, session }
+    )
+
+    //5) Return coupon with its discount
+    return { DocCoupon, discount, free_shipping }
+}
+
+/**
+ ** ==========================================================
+ ** getCartShipping - Get shipping options of cart lines to the
+ ** address given, with the option of service level chosen
+ ** ==========================================================
+ */
+const getCartShipping = async (
+    lines: Array<ShippingLine>,
+    service_level: ServiceLevel | undefined,
+    address: { country: string; state: string } | undefined,
+    subtotal: number,
+    free_shipping: boolean,
+    session?: ClientSession
+) => {
+    //1) If nothing to ship, or no shipping zones are set up yet, shipping is free
+    if (lines.length <= 0 || !(await hasShippingZones(session))) {
+        return { options: [] }
+    }
+
+    //2) If no address to ship to, throw err
+    if (!address) {
+        throw new AppError(
+            'Please set a default shipping address to calculate shipping.',
+            400
+        )
+    }
+
+    //3) Get shipping options, all free if coupon says so
+    let options = await getShippingOptions(lines, address, subtotal, session)
+    if (free_shipping) {
+        options = options.map((option) => ({
+            ...option,
+            cost: 0,
+            is_free: true,
+        }))
+    }
+
+    //4) Return options with the one of service level chosen
+    return { options, method: pickShippingOption(options, service_level) }
+}
+
+/**
+ ** ==========================================================
+ ** summarizeCart - The pricing pipeline of a cart, used both to
+ ** display totals and to charge them, so they always match
+ ** ==========================================================
+ */
+export const summarizeCart = async (
+    cart: Pick<ICart, 'owner' | 'products' | 'coupon' | 'shipping_method'>,
+    options: {
+        enforce_coupon: boolean
+        shipping_address?: { country: string; state: string }
+        report_errors?: boolean
+        currency?: CurrencyRate
+        session?: ClientSession
+        at?: Date
+    }
+): Promise<CartSummary> => {
+    //1) Price lines with deals active at the time
+    const prices = await priceLines(cart.products, {
+        user_id: cart.owner,
+        at: options.at,
+        session: options.session,
+    })
+
+    //2) Calc total of each line
+    const lines = cart.products.map((line, ind) => ({
+        _id: line._id,
+        product: prices[ind].product_id,
+        selected_variants: line.selected_variants,
+        quantity: line.quantity,
+        price: prices[ind].price,
+        selling_price: prices[ind].selling_price,
+        deal_price: prices[ind].deal_price,
+        deal: prices[ind].deal,
+        segments: prices[ind].segments,
+        line_total: roundPrice(
+            prices[ind].segments.reduce(
+                (prev, segment) => prev + segment.unit_price * segment.quantity,
+                0
+            )
+        ),
+    }))
+
+    //3) Calc subtotal
+    const subtotal = roundPrice(
+        lines.reduce((prev, line) => prev + line.line_total, 0)
+    )
+
+    //4) Calc discount of coupon applied, report its errors instead of throwing if asked
+    let coupon: Awaited<ReturnType<typeof getCartCoupon>> = null
+    let coupon_error: string | undefined
+    try {
+        coupon = await getCartCoupon(
+            cart.coupon,
+            lines.flatMap((line) =>
+                line.segments.map((segment) => ({
+                    product: line.product,
+                    selling_price: segment.unit_price,
+                    quantity: segment.quantity,
+                }))
+            ),
+            cart.owner,
+            options.enforce_coupon,
+            options.session
+        )
+    } catch (err) {
+        if (!options.report_errors || !(err instanceof AppError)) throw err
+        coupon_error = err.message
+    }
+    const discounts = {
+        coupon: coupon?.discount || 0,
+        total: coupon?.discount || 0,
+    }
+
+    //5) Calc shipping with method chosen for cart, report its errors instead of throwing if asked
+    let cartShipping: Awaited<ReturnType<typeof getCartShipping>> = {
+        options: [],
+    }
+    let shipping_error: string | undefined
+    try {
+        cartShipping = await getCartShipping(
+            lines,
+            cart.shipping_method,
+            options.shipping_address,
+            Math.max(subtotal - discounts.total, 0),
+            !!coupon?.free_shipping,
+            options.session
+        )
+    } catch (err) {
+        if (!options.report_errors || !(err instanceof AppError)) throw err
+        shipping_error = err.message
+    }
+    const shipping = cartShipping.method?.cost || 0
+
+    //6) Calc tax of lines, less their share of discount, and of shipping
+    const tax = options.shipping_address
+        ? await calcTax(
+              [
+                  ...lines.map((line) => ({
+                      product: line.product,
+                      amount:
+                          subtotal > 0
+                              ? line.line_total -
+                                (discounts.total * line.line_total) / subtotal
+                              : 0,
+                  })),
+                  { is_shipping: true, amount: shipping },
+              ],
+              options.shipping_address,
+              options.session
+          )
+        : { breakdown: [], total: 0, exclusive: 0 }
+
+    //7) Get base currency, prices above are in it
+    const baseCurrency = await resolveCurrency(
+        undefined,
+        undefined,
+        options.session
+    )
+
+    //8) Return summary, in the currency asked if any
+    const summary: CartSummary = {
+        lines,
+        subtotal,
+        discounts,
+        coupon: coupon
+            ? {
+                  _id: coupon.DocCoupon._id,
+                  code: coupon.DocCoupon.code,
+                  type: coupon.DocCoupon.type,
+                  value: coupon.DocCoupon.value,
+                  free_shipping: coupon.free_shipping,
+              }
+            : undefined,
+        coupon_error,
+        shipping_options: cartShipping.options,
+        shipping_method: cartShipping.method,
+        shipping_error,
+        shipping,
+        tax: tax.total,
+        tax_breakdown: tax.breakdown,
+        grand_total: roundPrice(
+            Math.max(subtotal - discounts.total, 0) + shipping + tax.exclusive
+        ),
+        currency: baseCurrency,
+    }
+    return options.currency
+        ? convertCartSummary(summary, options.currency)
+        : summary
+}
+
+/**
+ ** ==========================================================
+ ** convertCartSummary - Convert a summary in base currency into
+ ** the currency given, totals are summed up again from converted
+ ** amounts, so they match what is charged in that currency
+ ** ==========================================================
+ */
+export const convertCartSummary = (
+    summary: CartSummary,
+    currency: CurrencyRate
+): CartSummary => {
+    //1) Convert prices of lines
+    const convert = (amount: number) => convertPrice(amount, currency)
+    const factor = Math.pow(10, currency.decimals)
+    const round = (amount: number) => Math.round(amount * factor) / factor
+    const lines = summary.lines.map((line) => {
+        const segments = line.segments.map((segment) => ({
+            ...segment,
+            unit_price: convert(segment.unit_price),
+        }))
+        return {
+            ...line,
+            price: convert(line.price),
+            selling_price: convert(line.selling_price),
+            deal_price:
+                line.deal_price !== undefined
+                    ? convert(line.deal_price)
+                    : undefined,
+            segments,
+            line_total: round(
+                segments.reduce(
+                    (prev, segment) =>
+                        prev + segment.unit_price * segment.quantity,
+                    0
+                )
+            ),
+        }
+    })
+
+    //2) Sum subtotal, and convert discounts
+    const subtotal = round(
+        lines.reduce((prev, line) => prev + line.line_total, 0)
+    )
+    const discounts = {
+        coupon: Math.min(convert(summary.discounts.coupon), subtotal),
+        total: Math.min(convert(summary.discounts.total), subtotal),
+    }
+
+    //3) Convert shipping
+    const convertOption = (option: ShippingOption) => ({
+        ...option,
+        cost: convert(option.cost),
+    })
+    const shipping_method =
+        summary.shipping_method && convertOption(summary.shipping_method)
+    const shipping = shipping_method?.cost || 0
+
+    //4) Convert tax
+    const tax_breakdown = summary.tax_breakdown.map((tax) => ({
+        ...tax,
+        taxable_amount: convert(tax.taxable_amount),
+        amount: convert(tax.amount),
+    }))
+    const sumTax = (breakdown: TaxBreakdown) =>
+        round(breakdown.reduce((prev, tax) => prev + tax.amount, 0))
+
+    //5) Return converted summary
+    return {
+        ...summary,
+        lines,
+        subtotal,
+        discounts,
+        coupon: summary.coupon && {
+            ...summary.coupon,
+            value:
+                summary.coupon.type === 'fixed'
+                    ? convert(summary.coupon.value)
+                    : summary.coupon.value,
+        },
+        shipping_options: summary.shipping_options.map(convertOption),
+        shipping_method,
+        shipping,
+        tax: sumTax(tax_breakdown),
+        tax_breakdown,
+        grand_total: round(
+            subtotal -
+                discounts.total +
+                shipping +
+                sumTax(
+                    tax_breakdown.filter(
+                        (tax) => tax.price_mode === 'exclusive'
+                    )
+                )
+        ),
+        currency,
+    }
+}
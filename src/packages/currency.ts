@@ -0,0 +1,133 @@
+import { ClientSession } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Currency from '../models/Currency'
+
+/**
+ ** ==========================================================
+ ** Type [CurrencyRate] - A currency with its rate to the base
+ ** currency of store
+ ** ==========================================================
+ */
+export type CurrencyRate = {
+    code: string
+    symbol: string
+    rate: number
+    decimals: number
+}
+
+/**
+ ** ==========================================================
+ ** getBaseCurrency - Get base currency of store from env config,
+ ** prices are stored in it
+ ** ==========================================================
+ */
+export const getBaseCurrency = () =>
+    (
+        process.env.BASE_CURRENCY ||
+        process.env.PAYMENT_CURRENCY ||
+        'eur'
+    ).toLowerCase()
+
+/**
+ ** ==========================================================
+ ** getBaseCurrencyRate - Get base currency, whose rate is one
+ ** ==========================================================
+ */
+const getBaseCurrencyRate = async (
+    session?: ClientSession
+): Promise<CurrencyRate> => {
+    const code = getBaseCurrency()
+    const DocCurrency = await Currency.findOne({ code }).session(
+        session || null
+    )
+
+    return {
+        code,
+        symbol: DocCurrency?.symbol || code.toUpperCase(),
+        rate: 1,
+        decimals: DocCurrency?.decimals ?? 2,
+    }
+}
+
+/**
+ ** ==========================================================
+ ** resolveCurrency - Resolve currency of the code asked, else
+ ** the one of the country provided, else the base currency
+ ** ==========================================================
+ */
+export const resolveCurrency = async (
+    code?: unknown,
+    country?: string,
+    session?: ClientSession
+): Promise<CurrencyRate> => {
+    //1) If code asked is the base currency, return it
+    const codeAsked = typeof code === 'string' ? code.trim().toLowerCase() : ''
+    if (codeAsked === getBaseCurrency()) return getBaseCurrencyRate(session)
+
+    //2) Find currency of code asked, else the one of country
+    const DocCurrency = codeAsked
+        ? await Currency.findOne({ code: codeAsked }).session(session || null)
+        : country
+        ? await Currency.findOne({ countries: country }).session(
+              session || null
+          )
+        : null
+
+    //3) If code asked isn't supported, throw err
+    if (codeAsked && !DocCurrency) {
+        throw new AppError(
+            `The currency [${codeAsked.toUpperCase()}] is not supported.`,
+            400
+        )
+    }
+
+    //4) If no currency found, return base currency
+    if (!DocCurrency) return getBaseCurrencyRate(session)
+
+    //5) Return currency
+    return {
+        code: DocCurrency.code,
+        symbol: DocCurrency.symbol,
+        rate: DocCurrency.rate,
+        decimals: DocCurrency.decimals ?? 2,
+    }
+}
+
+/**
+ ** ==========================================================
+ ** convertPrice - Convert a price in base currency into the
+ ** currency given, rounded to its decimals
+ ** ==========================================================
+ */
+export const convertPrice = (
+    amount: number,
+    currency: Pick<CurrencyRate, 'rate' | 'decimals'>
+) => {
+    const factor = Math.pow(10, currency.decimals)
+    return Math.round(amount * currency.rate * factor) / factor
+}
+
+/**
+ ** ==========================================================
+ ** toMinorUnits - Get an amount in the smallest unit of its
+ ** currency, as payment providers expect it
+ ** ==========================================================
+ */
+export const toMinorUnits = (
+    amount: number,
+    currency: Pick<CurrencyRate, 'decimals'>
+) => Math.round(amount * Math.pow(10, currency.decimals))
+
+/**
+ ** ==========================================================
+ ** convertOptionalPrice - Convert a price which may be missing
+ ** ==========================================================
+ */
+export const convertOptionalPrice = (
+    price: number | undefined,
+    currency: Pick<CurrencyRate, 'rate' | 'decimals'>
+) => (price !== undefined ? convertPrice(price, currency) : undefined)
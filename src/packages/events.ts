@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events'
+import { ObjectId } from 'mongodb'
+import { OrderStatus } from '../models/Order'
+import { ReturnStatus } from '../models/Return'
+
+/**
+ ** ==========================================================
+ ** Type [AppEvents] - Events emitted within app and their payload
+ ** ==========================================================
+ */
+export type AppEvents = {
+    'deal-started': { _id: ObjectId; title: string; expires_in: Date }
+    'deal-ended': { _id: ObjectId; title: string; expires_in: Date }
+    'order-status-changed': {
+        _id: ObjectId
+        customer: ObjectId
+        from: OrderStatus
+        to: OrderStatus
+        note?: string
+    }
+    'return-status-changed': {
+        _id: ObjectId
+        order: ObjectId
+        customer: ObjectId
+        status: ReturnStatus
+        note?: string
+    }
+    'product-restocked': { _id: ObjectId }
+    'product-price-dropped': { _id: ObjectId }
+}
+
+/**
+ ** ==========================================================
+ ** Class [AppEventEmitter] - A typed event emitter
+ ** ==========================================================
+ */
+class AppEventEmitter extends EventEmitter {
+    emit<Name extends keyof AppEvents>(name: Name, payload: AppEvents[Name]) {
+        return super.emit(name, payload)
+    }
+
+    on<Name extends keyof AppEvents>(
+        name: Name,
+        listener: (payload: AppEvents[Name]) => void
+    ) {
+        return super.on(name, listener)
+    }
+}
+
+/*
+ ** **
+ ** ** ** EVENTS OF APP
+ ** **
+ */
+export const appEvents = new AppEventEmitter()
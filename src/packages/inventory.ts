@@ -0,0 +1,177 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Product from '../models/Product'
+import { SelectedVariants } from '../utils/selectedVariants'
+
+//Packages
+import { appEvents } from './events'
+import { afterCommit } from './transaction'
+
+/**
+ ** ==========================================================
+ ** findCombination - Find product and its variant combination
+ ** ==========================================================
+ */
+const findCombination = async (
+    productId: ObjectId | string,
+    selected_variants: SelectedVariants = [],
+    session?: ClientSession
+) => {
+    //1) Find product
+    const DocProduct = await Product.findById(productId).session(
+        session || null
+    )
+
+    //2) If product doesn't exist, throw err
+    if (!DocProduct) {
+        throw new AppError(
+            `No product exist with the id [${productId}] provided.`,
+            404
+        )
+    }
+
+    //3) Return product along with the combination matching selected variants
+    return {
+        DocProduct,
+        combination: DocProduct.findVariantCombination(selected_variants),
+    }
+}
+
+/**
+ ** ==========================================================
+ ** decrementStock - Decrement stock of product and its variant
+ ** combination, returns null when there's no sufficient stock
+ ** ==========================================================
+ */
+export const decrementStock = async (
+    productId: ObjectId | string,
+    selected_variants: SelectedVariants,
+    quantity: number,
+    session?: ClientSession
+) => {
+    //1) Find product and variant combination matching selected variants
+    const { DocProduct, combination } = await findCombination(
+        productId,
+        selected_variants,
+        session
+    )
+
+    //2) If product has combinations but none matches the selection, throw err
+    if (DocProduct.variant_combinations?.length && !combination) {
+        throw new AppError(
+            'No variant combination of the product matches the selected variants.',
+            400
+        )
+    }
+
+    //3) Decrement stock of product, and of the combination if there's one
+    return Product.findOneAndUpdate(
+        combination
+            ? {
+                  _id: DocProduct._id,
+                  stock: { $gte: quantity },
+                  variant_combinations: {
+                      $elemMatch: {
+                          _id: combination._id,
+                          stock: { $gte: quantity },
+                      },
+                  },
+              }
+            : { _id: DocProduct._id, stock: { $gte: quantity } },
+        combination
+            ? {
+                  $inc: {
+                      stock: -quantity,
+                      'variant_combinations.$.stock': -quantity,
+                  },
+              }
+            : { $inc: { stock: -quantity } },
+        { new: true, runValidators: true, session }
+    )
+}
+
+/**
+ ** ==========================================================
+ ** incrementStock - Increment stock of product and its variant
+ ** combination
+ ** ==========================================================
+ */
+export const incrementStock = async (
+    productId: ObjectId | string,
+    selected_variants: SelectedVariants,
+    quantity: number,
+    session?: ClientSession
+) => {
+    //1) Find product and variant combination matching selected variants
+    const { DocProduct, combination } = await findCombination(
+        productId,
+        selected_variants,
+        session
+    )
+
+    //2) Increment stock of product, and of the combination if there's one
+    const DocProductUpdated = await Product.findOneAndUpdate(
+        combination
+            ? {
+                  _id: DocProduct._id,
+                  'variant_combinations._id': combination._id,
+              }
+            : { _id: DocProduct._id },
+        combination
+            ? {
+                  $inc: {
+                      stock: +quantity,
+                      'variant_combinations.$.stock': +quantity,
+                  },
+              }
+            : { $inc: { stock: +quantity } },
+        { new: true, runValidators: true, session }
+    )
+
+    //3) If it was out of stock, tell the rest of app it's back in stock, once the stock is committed
+    const stockBefore = combination ? combination.stock : DocProduct.stock
+    if (DocProductUpdated && stockBefore <= 0 && quantity > 0) {
+        afterCommit(session, () =>
+            appEvents.emit('product-restocked', { _id: DocProductUpdated._id })
+        )
+    }
+
+    //4) Return product updated
+    return DocProductUpdated
+}
+
+/**
+ ** ==========================================================
+ ** restockOrderLines - Give back stock of the lines of an order,
+ ** lines of the products which no longer exist are skipped
+ ** ==========================================================
+ */
+export const restockOrderLines = async (
+    lines: Array<{
+        product: ObjectId
+        selected_variants: SelectedVariants
+        quantity: number
+    }>,
+    session?: ClientSession
+) => {
+    for (const line of lines) {
+        //=> Skip, if product no longer exist
+        const isProductExist = await Product.exists({
+            _id: line.product,
+        }).session(session || null)
+        if (!isProductExist) continue
+
+        //=> Give back stock
+        await incrementStock(
+            line.product,
+            line.selected_variants,
+            line.quantity,
+            session
+        )
+    }
+}
@@ -13,6 +13,17 @@ export const JWT_CreateToken = (payload: string) => {
     })
 }
 
+/**
+ ** ====================================
+ ** CREATE GUEST JWT TOKEN
+ ** ====================================
+ */
+export const JWT_CreateGuestToken = (guest: string) => {
+    return JWT.sign({ guest }, process.env.JWT_SECRET_KEY as JWT.Secret, {
+        expiresIn: `${process.env.GUEST_CART_EXPIRATION || 30} days`,
+    })
+}
+
 /**
  ** ====================================
  ** CREATE AND SEND JWT TOKEN
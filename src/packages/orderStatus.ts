@@ -0,0 +1,376 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession, FilterQuery } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Order, { IOrder, OrderStatus } from '../models/Order'
+import User from '../models/User'
+
+//Packages
+import { withTransaction } from './transaction'
+import { restockOrderLines } from './inventory'
+import { releaseDealUnits } from './pricing'
+import { releaseCoupon } from '../utils/coupon'
+import { appEvents, AppEvents } from './events'
+import { mail } from './mailer'
+
+/**
+ ** ==========================================================
+ ** Type [StatusChange] - Who changes status of an order, and why,
+ ** a refunded order is restocked unless its refunds restocked it
+ ** ==========================================================
+ */
+export type StatusChange = {
+    source: NonNullable<IOrder['timeline']>[number]['source']
+    changed_by?: ObjectId
+    note?: string
+    from?: Array<OrderStatus>
+    strict?: boolean
+    is_restocked?: boolean
+}
+
+/*
+ ** **
+ ** ** ** TRANSITIONS - Statuses an order can move to from each status
+ ** **
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+    OrderStatus,
+    Array<OrderStatus>
+> = {
+    pending_payment: ['processing', 'on_hold', 'canceled', 'refunded'],
+    processing: ['on_hold', 'completed', 'canceled', 'refunded'],
+    on_hold: ['processing', 'pending_payment', 'canceled', 'refunded'],
+    completed: ['on_hold', 'refunded'],
+    canceled: ['refunded'],
+    refunded: [],
+}
+
+/*
+ ** **
+ ** ** ** LABELS - Statuses as told to customers
+ ** **
+ */
+const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    pending_payment: 'awaiting payment',
+    processing: 'being processed',
+    on_hold: 'on hold',
+    completed: 'completed',
+    canceled: 'canceled',
+    refunded: 'refunded',
+}
+
+/**
+ ** ==========================================================
+ ** canChangeOrderStatus - Whether an order can move from the
+ ** status to the other
+ ** ==========================================================
+ */
+export const canChangeOrderStatus = (
+    from: IOrder['delivery_status'],
+    to: OrderStatus
+) => !!from && ORDER_STATUS_TRANSITIONS[from].includes(to)
+
+/**
+ ** ==========================================================
+ ** assertCanChangeOrderStatus - Throw err if an order can't
+ ** move from the status to the other
+ ** ==========================================================
+ */
+export const assertCanChangeOrderStatus = (
+    from: IOrder['delivery_status'],
+    to: OrderStatus
+) => {
+    if (canChangeOrderStatus(from, to)) return
+
+    const allowed = from ? ORDER_STATUS_TRANSITIONS[from] : []
+    throw new AppError(
+        `An order which is [${from}] can't be moved to [${to}]. ${
+            allowed.length
+                ? `It can only be moved to: ${allowed.join(', ')}.`
+                : 'Its status is final.'
+        }`,
+        400
+    )
+}
+
+/**
+ ** ==========================================================
+ ** getUnrefundedLines - Get lines of an order less their items
+ ** refunded already
+ ** ==========================================================
+ */
+export const getUnrefundedLines = (order: IOrder) => {
+    //1) Sum refunded quantity of each line
+    const refunded = new Map<string, number>()
+    const refunds = (order.refunds || []).filter(
+        (refund) => refund.status === 'succeeded'
+    )
+    refunds.forEach((refund) =>
+        refund.items.forEach((item) =>
+            refunded.set(
+                item.line.toString(),
+                (refunded.get(item.line.toString()) || 0) + item.quantity
+            )
+        )
+    )
+
+    //2) Return lines with quantity left
+    return order.products
+        .map((line) => ({
+            ...line,
+            quantity:
+                line.quantity - (refunded.get(line._id?.toString() || '') || 0),
+        }))
+        .filter((line) => line.quantity > 0)
+}
+
+/**
+ ** ==========================================================
+ ** subtractShippedLines - Get lines of an order not refunded
+ ** less their items in the shipments given
+ ** ==========================================================
+ */
+const subtractShippedLines = (
+    order: IOrder,
+    shipments: NonNullable<IOrder['shipments']>
+) => {
+    //1) Sum shipped quantity of each line
+    const shipped = new Map<string, number>()
+    shipments.forEach((shipment) =>
+        shipment.items.forEach((item) =>
+            shipped.set(
+                item.line.toString(),
+                (shipped.get(item.line.toString()) || 0) + item.quantity
+            )
+        )
+    )
+
+    //2) Return lines with quantity left
+    return getUnrefundedLines(order)
+        .map((line) => ({
+            ...line,
+            quantity:
+                line.quantity - (shipped.get(line._id?.toString() || '') || 0),
+        }))
+        .filter((line) => line.quantity > 0)
+}
+
+/**
+ ** ==========================================================
+ ** getUnshippedLines - Get lines of an order which are left to
+ ** be shipped
+ ** ==========================================================
+ */
+export const getUnshippedLines = (order: IOrder) =>
+    subtractShippedLines(order, order.shipments || [])
+
+/**
+ ** ==========================================================
+ ** getUndeliveredLines - Get lines of an order which are left
+ ** to be delivered
+ ** ==========================================================
+ */
+export const getUndeliveredLines = (order: IOrder) =>
+    subtractShippedLines(
+        order,
+        (order.shipments || []).filter((shipment) => shipment.delivered_at)
+    )
+
+/**
+ ** ==========================================================
+ ** applyOrderStatusChange - Move status of the order matching
+ ** filter within the transaction given, append the change to its
+ ** timeline and apply its side effects, returns null if order
+ ** isn't found or can't be moved, unless change is strict, then
+ ** throws
+ ** ==========================================================
+ */
+export const applyOrderStatusChange = async (
+    filter: FilterQuery<IOrder>,
+    to: OrderStatus,
+    change: StatusChange,
+    session: ClientSession
+) => {
+    //1) Find order
+    const DocOrder = await Order.findOne(filter).session(session)
+    if (!DocOrder) {
+        if (!change.strict) return null
+        throw new AppError('No order found with the id provided.', 404)
+    }
+
+    //2) If order can't move to status, return or throw err
+    const from = DocOrder.delivery_status
+    if (
+        !from ||
+        !canChangeOrderStatus(from, to) ||
+        (change.from && !change.from.includes(from))
+    ) {
+        if (!change.strict) return null
+        assertCanChangeOrderStatus(from, to)
+        throw new AppError(
+            `This change only applies to an order which is: ${change.from?.join(
+                ', '
+            )}.`,
+            400
+        )
+    }
+
+    //3) Order can only be completed once every line of it is delivered
+    if (
+        to === 'completed' &&
+        getUndeliveredLines(DocOrder.toObject()).length > 0
+    ) {
+        if (!change.strict) return null
+        throw new AppError(
+            'An order can only be completed once every line of it is delivered.',
+            400
+        )
+    }
+
+    //4) Move status, only if it hasn't changed meanwhile, and append change to timeline
+    const DocOrderChanged = await Order.findOneAndUpdate(
+        { _id: DocOrder._id, delivery_status: from },
+        {
+            $set: { delivery_status: to, status_changed_at: Date.now() },
+            $push: {
+                timeline: {
+                    from,
+                    to,
+                    source: change.source,
+                    changed_by: change.changed_by,
+                    note: change.note,
+                    created_at: Date.now(),
+                },
+            },
+        },
+        { new: true, runValidators: true, session }
+    )
+    if (!DocOrderChanged) {
+        throw new AppError(
+            'Status of this order was changed meanwhile, please try again.',
+            409
+        )
+    }
+
+    //5) If order has been canceled, or refunded without its refunds restocking it,
+    //give back stock and deal units of what's not refunded or shipped
+    if (
+        to === 'canceled' ||
+        (to === 'refunded' && from !== 'canceled' && !change.is_restocked)
+    ) {
+        const lines = getUnshippedLines(DocOrder.toObject())
+        await restockOrderLines(lines, session)
+        await releaseDealUnits(lines, session)
+    }
+
+    //6) If order has been canceled or refunded, give back its use of coupon, unless it was given back already
+    if (
+        DocOrder.coupon?._id &&
+        (to === 'canceled' || (to === 'refunded' && from !== 'canceled'))
+    ) {
+        await releaseCoupon(DocOrder.coupon._id, session)
+    }
+
+    //7) Return order changed, and status it was moved from
+    return { DocOrder: DocOrderChanged, from }
+}
+
+/**
+ ** ==========================================================
+ ** emitOrderStatusChange - Tell the rest of app about a change
+ ** of status, once its transaction is committed
+ ** ==========================================================
+ */
+export const emitOrderStatusChange = (
+    result: NonNullable<Awaited<ReturnType<typeof applyOrderStatusChange>>>,
+    to: OrderStatus,
+    change: StatusChange
+) => {
+    appEvents.emit('order-status-changed', {
+        _id: result.DocOrder._id,
+        customer: result.DocOrder.customer,
+        from: result.from,
+        to,
+        note: change.note,
+    })
+}
+
+/**
+ ** ==========================================================
+ ** changeOrderStatus - Move status of the order matching filter
+ ** within a transaction, and tell the rest of app about it,
+ ** returns null if order isn't found or can't be moved, unless
+ ** change is strict, then throws
+ ** ==========================================================
+ */
+export const changeOrderStatus = async (
+    filter: FilterQuery<IOrder>,
+    to: OrderStatus,
+    change: StatusChange
+) => {
+    //1) Change status within a transaction
+    const result = await withTransaction((session) =>
+        applyOrderStatusChange(filter, to, change, session)
+    )
+
+    //2) If nothing changed, return
+    if (!result) return null
+
+    //3) Tell the rest of app about the change
+    emitOrderStatusChange(result, to, change)
+
+    //4) Return order changed
+    return result.DocOrder
+}
+
+/**
+ ** ==========================================================
+ ** getInitialTimeline - Get timeline of an order just placed
+ ** ==========================================================
+ */
+export const getInitialTimeline = (
+    to: OrderStatus,
+    change: Omit<StatusChange, 'from' | 'strict'>
+): IOrder['timeline'] => [
+    {
+        to,
+        source: change.source,
+        changed_by: change.changed_by,
+        note: change.note,
+        created_at: new Date(),
+    },
+]
+
+/**
+ ** ==========================================================
+ ** notifyOrderStatusChange - Email customer when status of
+ ** their order changes
+ ** ==========================================================
+ */
+export const notifyOrderStatusChange = async (
+    change: AppEvents['order-status-changed']
+) => {
+    try {
+        //1) Find customer of order
+        const DocUser = await User.findById(change.customer)
+        if (!DocUser) return
+
+        //2) Email customer
+        await mail({
+            to: DocUser.email,
+            subject: `Your order is ${ORDER_STATUS_LABELS[change.to]}`,
+            message: `Hi ${DocUser.name}, your order [${change._id}] is now ${
+                ORDER_STATUS_LABELS[change.to]
+            }.${change.note ? `\n\n${change.note}` : ''}`,
+        })
+    } catch (err) {
+        console.log(
+            `Failed to email customer about status of order [${
+                change._id
+            }]:\t[${(err as Error).message}]`
+        )
+    }
+}
@@ -0,0 +1,67 @@
+//Error Handling
+import AppError from '../../error handling/AppError'
+
+//Types
+import { CheckoutSessionInput, PaymentProvider } from './PaymentProvider'
+
+/**
+ ** ==========================================================
+ ** Class [CashOnDeliveryProvider] - Payment is collected by
+ ** hand on delivery, so nothing is charged or refunded online
+ ** ==========================================================
+ */
+export default class CashOnDeliveryProvider implements PaymentProvider {
+    /*
+     ** **
+     ** ** ** VARS
+     ** **
+     */
+    readonly name = 'cash_on_delivery' as const
+    readonly signature_header = ''
+
+    /*
+     ** **
+     ** ** ** Create Checkout Session - Nothing to pay online, so
+     ** ** ** customer goes straight to success url
+     ** **
+     */
+    createCheckoutSession = async (input: CheckoutSessionInput) => {
+        return {
+            id: `cod_${input.client_reference_id}_${Date.now()}`,
+            url: input.success_url,
+        }
+    }
+
+    /*
+     ** **
+     ** ** ** Construct Event - Cash on delivery has no events
+     ** **
+     */
+    constructEvent = (): never => {
+        throw new AppError(
+            'Cash on delivery payments do not send any events.',
+            400
+        )
+    }
+
+    /*
+     ** **
+     ** ** ** Get Transaction Id - Cash on delivery has no transaction
+     ** **
+     */
+    getTransactionId = async () => undefined
+
+    /*
+     ** **
+     ** ** ** Refund - Cash is given back by hand, so just record it
+     ** **
+     */
+    refund = async () => ({})
+
+    /*
+     ** **
+     ** ** ** Find Refund - Cash refunds are never left with the provider
+     ** **
+     */
+    findRefund = async () => null
+}
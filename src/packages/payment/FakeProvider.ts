@@ -0,0 +1,243 @@
+import crypto from 'crypto'
+
+//Error Handling
+import AppError from '../../error handling/AppError'
+
+//Types
+import {
+    CheckoutSessionInput,
+    getCheckoutSessionAmount,
+    PaymentEvent,
+    PaymentProvider,
+    RefundInput,
+} from './PaymentProvider'
+
+/**
+ ** ==========================================================
+ ** Type [FakeOutcome] - Outcomes which can be simulated, a
+ ** pending checkout is paid later, once it settles or fails
+ ** ==========================================================
+ */
+export type FakeOutcome =
+    | 'success'
+    | 'pending'
+    | 'settle'
+    | 'failure'
+    | 'expire'
+    | 'refund'
+    | 'dispute'
+
+/**
+ ** ==========================================================
+ ** Type [FakePayment] - A simulated checkout session & payment
+ ** ==========================================================
+ */
+type FakePayment = {
+    checkout_session_id: string
+    client_reference_id: string
+    payment_intent_id: string
+    transaction_id: string
+    amount: number
+    amount_refunded: number
+    refunds: Array<{ id: string; amount: number; idempotency_key: string }>
+}
+
+/**
+ ** ==========================================================
+ ** generateId - Generate a random id with the prefix provided
+ ** ==========================================================
+ */
+const generateId = (prefix: string) =>
+    `${prefix}_fake${crypto.randomBytes(12).toString('hex')}`
+
+/**
+ ** ==========================================================
+ ** Class [FakeProvider] - An in-process provider which
+ ** simulates sessions, payments and refunds with no network
+ ** ==========================================================
+ */
+export default class FakeProvider implements PaymentProvider {
+    /*
+     ** **
+     ** ** ** VARS
+     ** **
+     */
+    readonly name = 'fake' as const
+    readonly signature_header = 'fake-signature'
+    private secret = crypto.randomBytes(32).toString('hex')
+    private payments = new Map<string, FakePayment>()
+
+    /*
+     ** **
+     ** ** ** Find Payment - Find a payment by any of its ids
+     ** **
+     */
+    private findPayment = (id?: string) => {
+        if (!id) return undefined
+        return [...this.payments.values()].find(
+            (payment) =>
+                payment.checkout_session_id === id ||
+                payment.payment_intent_id === id ||
+                payment.transaction_id === id
+        )
+    }
+
+    /*
+     ** **
+     ** ** ** Sign - Sign body of an event with secret of provider
+     ** **
+     */
+    private sign = (body: string) =>
+        crypto.createHmac('sha256', this.secret).update(body).digest('hex')
+
+    /*
+     ** **
+     ** ** ** Create Checkout Session - Create a simulated session
+     ** **
+     */
+    createCheckoutSession = async (input: CheckoutSessionInput) => {
+        //1) Create a payment of session
+        const payment: FakePayment = {
+            checkout_session_id: generateId('cs'),
+            client_reference_id: input.client_reference_id,
+            payment_intent_id: generateId('pi'),
+            transaction_id: generateId('ch'),
+            amount: getCheckoutSessionAmount(input),
+            amount_refunded: 0,
+            refunds: [],
+        }
+        this.payments.set(payment.checkout_session_id, payment)
+
+        //2) Return session, customer is sent to success url with its id
+        return {
+            id: payment.checkout_session_id,
+            url: `${input.success_url}?session_id=${payment.checkout_session_id}`,
+        }
+    }
+
+    /*
+     ** **
+     ** ** ** Simulate - Create a signed event of the outcome of a
+     ** ** ** session, to be sent to webhook just like a real one
+     ** **
+     */
+    simulate = (checkout_session_id: string, outcome: FakeOutcome) => {
+        //1) Find payment of session
+        const payment = this.payments.get(checkout_session_id)
+        if (!payment) {
+            throw new AppError(
+                `No fake checkout session found with the id [${checkout_session_id}].`,
+                404
+            )
+        }
+
+        //2) Create event of outcome
+        const event: PaymentEvent = {
+            id: generateId('evt'),
+            provider: this.name,
+            type: {
+                success: 'checkout.completed' as const,
+                pending: 'checkout.completed' as const,
+                settle: 'payment.succeeded' as const,
+                failure: 'payment.failed' as const,
+                expire: 'checkout.expired' as const,
+                refund: 'charge.refunded' as const,
+                dispute: 'charge.disputed' as const,
+            }[outcome],
+            provider_type: outcome,
+            client_reference_id: payment.client_reference_id,
+            checkout_session_id: payment.checkout_session_id,
+            payment_intent_id: payment.payment_intent_id,
+            amount_total: payment.amount,
+            is_paid: outcome === 'success' || outcome === 'settle',
+            is_fully_refunded: payment.amount_refunded >= payment.amount,
+        }
+
+        //3) Return signed body of event
+        const body = JSON.stringify(event)
+        return { body, signature: this.sign(body) }
+    }
+
+    /*
+     ** **
+     ** ** ** Construct Event - Verify signature of a simulated event
+     ** **
+     */
+    constructEvent = (body: Buffer | string, signature: string) => {
+        //1) Signature must match the one of body
+        const expected = Buffer.from(this.sign(body.toString()))
+        const received = Buffer.from(signature)
+        if (
+            expected.length !== received.length ||
+            !crypto.timingSafeEqual(expected, received)
+        ) {
+            throw new AppError('Signature of fake event is invalid.', 400)
+        }
+
+        //2) Return event
+        return JSON.parse(body.toString()) as PaymentEvent
+    }
+
+    /*
+     ** **
+     ** ** ** Get Transaction Id - Get charge of a simulated payment
+     ** **
+     */
+    getTransactionId = async (payment_intent_id: string) =>
+        this.findPayment(payment_intent_id)?.transaction_id
+
+    /*
+     ** **
+     ** ** ** Refund - Refund a simulated payment fully or partially
+     ** **
+     */
+    refund = async (input: RefundInput) => {
+        //1) Find payment to be refunded
+        const payment = this.findPayment(
+            input.payment_intent_id || input.transaction_id
+        )
+        if (!payment) {
+            throw new AppError('No fake payment found to be refunded.', 404)
+        }
+
+        //2) If refunded already with the same key, return the same refund
+        const refunded = payment.refunds.find(
+            (refund) => refund.idempotency_key === input.idempotency_key
+        )
+        if (refunded) return { id: refunded.id }
+
+        //3) Amount must not exceed what's left to be refunded
+        if (payment.amount_refunded + input.amount > payment.amount) {
+            throw new AppError(
+                'Refund amount exceeds the amount left to be refunded.',
+                400
+            )
+        }
+
+        //4) Record refund
+        const refund = {
+            id: generateId('re'),
+            amount: input.amount,
+            idempotency_key: input.idempotency_key,
+        }
+        payment.refunds.push(refund)
+        payment.amount_refunded += input.amount
+
+        //5) Return refund
+        return { id: refund.id }
+    }
+
+    /*
+     ** **
+     ** ** ** Find Refund - Find a simulated refund by its key
+     ** **
+     */
+    findRefund = async (input: Omit<RefundInput, 'amount' | 'metadata'>) => {
+        const refund = this.findPayment(
+            input.payment_intent_id || input.transaction_id
+        )?.refunds.find(
+            (refund) => refund.idempotency_key === input.idempotency_key
+        )
+        return refund ? { id: refund.id } : null
+    }
+}
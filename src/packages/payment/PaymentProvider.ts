@@ -0,0 +1,124 @@
+/**
+ ** ==========================================================
+ ** Type [PaymentProviderName]
+ ** ==========================================================
+ */
+export type PaymentProviderName = 'stripe' | 'cash_on_delivery' | 'fake'
+
+/**
+ ** ==========================================================
+ ** Type [CheckoutSessionInput] - Amounts are in cents
+ ** ==========================================================
+ */
+export type CheckoutSessionInput = {
+    customer_email: string
+    client_reference_id: string
+    success_url: string
+    cancel_url: string
+    currency: string
+    expires_at: Date
+    line_items: Array<{
+        name: string
+        description: string
+        image_url: string
+        unit_amount: number
+        quantity: number
+    }>
+    discount?: {
+        name: string
+        amount: number
+    }
+    shipping?: {
+        name: string
+        amount: number
+    }
+    taxes?: Array<{
+        name: string
+        amount: number
+        inclusive: boolean
+    }>
+}
+
+/**
+ ** ==========================================================
+ ** getCheckoutSessionAmount - Get amount to be charged of a
+ ** checkout session in cents, as its provider totals it
+ ** ==========================================================
+ */
+export const getCheckoutSessionAmount = (input: CheckoutSessionInput) =>
+    input.line_items.reduce(
+        (prev, item) => prev + item.unit_amount * item.quantity,
+        0
+    ) -
+    (input.discount?.amount || 0) +
+    (input.shipping?.amount || 0) +
+    (input.taxes || [])
+        .filter((tax) => !tax.inclusive)
+        .reduce((prev, tax) => prev + tax.amount, 0)
+
+/**
+ ** ==========================================================
+ ** Type [CheckoutSession]
+ ** ==========================================================
+ */
+export type CheckoutSession = {
+    id: string
+    url: string
+}
+
+/**
+ ** ==========================================================
+ ** Type [PaymentEvent] - An event of provider, normalized so
+ ** it's handled the same way whatever the provider is, amount
+ ** is in cents
+ ** ==========================================================
+ */
+export type PaymentEvent = {
+    id: string
+    provider: PaymentProviderName
+    type:
+        | 'checkout.completed'
+        | 'checkout.expired'
+        | 'payment.succeeded'
+        | 'payment.failed'
+        | 'charge.refunded'
+        | 'charge.disputed'
+        | 'unhandled'
+    provider_type: string
+    client_reference_id?: string
+    checkout_session_id?: string
+    payment_intent_id?: string
+    amount_total?: number
+    is_paid?: boolean
+    is_fully_refunded?: boolean
+}
+
+/**
+ ** ==========================================================
+ ** Type [RefundInput] - Amount is in cents
+ ** ==========================================================
+ */
+export type RefundInput = {
+    payment_intent_id?: string
+    transaction_id?: string
+    amount: number
+    idempotency_key: string
+    metadata: { [key: string]: string }
+}
+
+/**
+ ** ==========================================================
+ ** Interface [PaymentProvider]
+ ** ==========================================================
+ */
+export interface PaymentProvider {
+    readonly name: PaymentProviderName
+    readonly signature_header: string
+    createCheckoutSession(input: CheckoutSessionInput): Promise<CheckoutSession>
+    constructEvent(body: Buffer | string, signature: string): PaymentEvent
+    getTransactionId(payment_intent_id: string): Promise<string | undefined>
+    refund(input: RefundInput): Promise<{ id?: string }>
+    findRefund(
+        input: Omit<RefundInput, 'amount' | 'metadata'>
+    ): Promise<{ id?: string } | null>
+}
@@ -0,0 +1,354 @@
+import stripe from 'stripe'
+
+//Error Handling
+import AppError from '../../error handling/AppError'
+
+//Types
+import {
+    CheckoutSessionInput,
+    PaymentEvent,
+    PaymentProvider,
+    RefundInput,
+} from './PaymentProvider'
+
+/*
+ ** **
+ ** ** ** VERSION OF STRIPE API
+ ** **
+ */
+const STRIPE_API_VERSION = '2022-11-15'
+
+/**
+ ** ==========================================================
+ ** getPaymentIntentId - Get id of payment intent, either
+ ** expanded or not, of a stripe object
+ ** ==========================================================
+ */
+const getPaymentIntentId = (
+    payment_intent: string | stripe.PaymentIntent | null
+) => {
+    if (!payment_intent) return undefined
+    return typeof payment_intent === 'string'
+        ? payment_intent
+        : payment_intent.id
+}
+
+/**
+ ** ==========================================================
+ ** Class [StripeProvider]
+ ** ==========================================================
+ */
+export default class StripeProvider implements PaymentProvider {
+    /*
+     ** **
+     ** ** ** VARS
+     ** **
+     */
+    readonly name = 'stripe' as const
+    readonly signature_header = 'stripe-signature'
+
+    /*
+     ** **
+     ** ** ** API - Init stripe with the secret key from env config
+     ** **
+     */
+    private api = () => {
+        //1) Throw error if stripe secret key is not setup
+        if (!process.env.STRIPE_SECRET_KEY) {
+            console.log(
+                'Please setup stripe secret key in a .env config file, "STRIPE_SECRET_KEY" is missing.'
+            )
+            throw new Error()
+        }
+
+        //2) Init stripe
+        return new stripe(process.env.STRIPE_SECRET_KEY, {
+            apiVersion: STRIPE_API_VERSION,
+        })
+    }
+
+    /*
+     ** **
+     ** ** ** Get Discount Coupon - Get stripe coupon of a discount, created
+     ** ** ** once for each code, currency and amount, and reused after
+     ** **
+     */
+    private getDiscountCoupon = async (
+        discount: NonNullable<CheckoutSessionInput['discount']>,
+        currency: string
+    ) => {
+        //1) Id of coupon of discount
+        const id =
+            `${discount.name}-${currency}-${discount.amount}`.toLowerCase()
+
+        //2) If coupon is created already, return it
+        try {
+            return await this.api().coupons.retrieve(id)
+        } catch (err) {
+            if ((err as stripe.errors.StripeError).code !== 'resource_missing')
+                throw err
+        }
+
+        //3) Else create coupon, if it was created meanwhile, return that one
+        try {
+            return await this.api().coupons.create({
+                id,
+                name: discount.name,
+                amount_off: discount.amount,
+                currency,
+                duration: 'once',
+            })
+        } catch (err) {
+            if (
+                (err as stripe.errors.StripeError).code !==
+                'resource_already_exists'
+            )
+                throw err
+            return this.api().coupons.retrieve(id)
+        }
+    }
+
+    /*
+     ** **
+     ** ** ** Create Checkout Session - Create a stripe checkout session
+     ** **
+     */
+    createCheckoutSession = async (input: CheckoutSessionInput) => {
+        //1) Get stripe coupon of discount
+        const coupon = input.discount
+            ? await this.getDiscountCoupon(input.discount, input.currency)
+            : undefined
+
+        //2) Split taxes added as line items from ones included in prices
+        const taxes = input.taxes || []
+        const taxesIncluded = taxes.filter((tax) => tax.inclusive)
+
+        //3) Create stripe checkout session
+        const checkout_session = await this.api().checkout.sessions.create({
+            payment_method_types: ['card'],
+            success_url: input.success_url,
+            cancel_url: input.cancel_url,
+            customer_email: input.customer_email,
+            client_reference_id: input.client_reference_id,
+            mode: 'payment',
+            expires_at: Math.floor(input.expires_at.getTime() / 1000),
+            line_items: [
+                ...input.line_items.map((item) => ({
+                    quantity: item.quantity,
+                    price_data: {
+                        currency: input.currency,
+                        unit_amount_decimal: item.unit_amount.toString(),
+                        product_data: {
+                            name: item.name,
+                            description: item.description,
+                            images: [item.image_url],
+                        },
+                    },
+                })),
+                ...taxes
+                    .filter((tax) => !tax.inclusive)
+                    .map((tax) => ({
+                        quantity: 1,
+                        price_data: {
+                            currency: input.currency,
+                            unit_amount_decimal: tax.amount.toString(),
+                            product_data: { name: tax.name },
+                        },
+                    })),
+            ],
+            custom_text: taxesIncluded.length
+                ? {
+                      submit: {
+                          message: `Prices include ${taxesIncluded
+                              .map((tax) => tax.name)
+                              .join(', ')}.`,
+                      },
+                  }
+                : undefined,
+            discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+            shipping_options: input.shipping
+                ? [
+                      {
+                          shipping_rate_data: {
+                              type: 'fixed_amount',
+                              display_name: input.shipping.name,
+                              fixed_amount: {
+                                  amount: input.shipping.amount,
+                                  currency: input.currency,
+                              },
+                          },
+                      },
+                  ]
+                : undefined,
+        })
+
+        //4) If no checkout session, throw err
+        if (!checkout_session || !checkout_session.url) {
+            throw new AppError(
+                'Failed to create a checkout sesison, please try again.',
+                500
+            )
+        }
+
+        //5) Return checkout session
+        return { id: checkout_session.id, url: checkout_session.url }
+    }
+
+    /*
+     ** **
+     ** ** ** Construct Event - Verify signature of a stripe event
+     ** ** ** and normalize it
+     ** **
+     */
+    constructEvent = (
+        body: Buffer | string,
+        signature: string
+    ): PaymentEvent => {
+        //1) Throw error if webhook secret is not setup
+        if (!process.env.STRIPE_WEBHOOK_SECRET) {
+            console.log(
+                'Please setup "STRIPE_WEBHOOK_SECRET" in your .env config file.'
+            )
+            throw new Error()
+        }
+
+        //2) Create event
+        const event = this.api().webhooks.constructEvent(
+            body,
+            signature,
+            process.env.STRIPE_WEBHOOK_SECRET
+        )
+
+        //3) Return event normalized
+        return this.normalizeEvent(event)
+    }
+
+    /*
+     ** **
+     ** ** ** Normalize Event - Turn a raw stripe event into a
+     ** ** ** payment event
+     ** **
+     */
+    normalizeEvent = (event: stripe.Event): PaymentEvent => {
+        const paymentEvent: PaymentEvent = {
+            id: event.id,
+            provider: this.name,
+            type: 'unhandled',
+            provider_type: event.type,
+        }
+        switch (event.type) {
+            case 'checkout.session.completed':
+            case 'checkout.session.expired':
+            case 'checkout.session.async_payment_succeeded':
+            case 'checkout.session.async_payment_failed': {
+                const session = event.data.object as stripe.Checkout.Session
+                return {
+                    ...paymentEvent,
+                    type: (
+                        {
+                            'checkout.session.completed': 'checkout.completed',
+                            'checkout.session.expired': 'checkout.expired',
+                            'checkout.session.async_payment_succeeded':
+                                'payment.succeeded',
+                            'checkout.session.async_payment_failed':
+                                'payment.failed',
+                        } as const
+                    )[event.type],
+                    client_reference_id:
+                        session.client_reference_id || undefined,
+                    checkout_session_id: session.id,
+                    payment_intent_id: getPaymentIntentId(
+                        session.payment_intent
+                    ),
+                    amount_total: session.amount_total ?? undefined,
+                    is_paid: session.payment_status === 'paid',
+                }
+            }
+            case 'charge.refunded': {
+                const charge = event.data.object as stripe.Charge
+                return {
+                    ...paymentEvent,
+                    type: 'charge.refunded',
+                    payment_intent_id: getPaymentIntentId(
+                        charge.payment_intent
+                    ),
+                    is_fully_refunded: charge.amount_refunded >= charge.amount,
+                }
+            }
+            case 'charge.dispute.created': {
+                const dispute = event.data.object as stripe.Dispute
+                return {
+                    ...paymentEvent,
+                    type: 'charge.disputed',
+                    payment_intent_id: getPaymentIntentId(
+                        dispute.payment_intent
+                    ),
+                }
+            }
+            default:
+                return paymentEvent
+        }
+    }
+
+    /*
+     ** **
+     ** ** ** Get Transaction Id - Get latest charge of payment intent
+     ** **
+     */
+    getTransactionId = async (payment_intent_id: string) => {
+        const paymentIntent = await this.api().paymentIntents.retrieve(
+            payment_intent_id
+        )
+        const latestCharge = paymentIntent.latest_charge
+        return typeof latestCharge === 'string'
+            ? latestCharge
+            : latestCharge?.id
+    }
+
+    /*
+     ** **
+     ** ** ** Refund - Refund a payment fully or partially
+     ** **
+     */
+    refund = async (input: RefundInput) => {
+        const refund = await this.api().refunds.create(
+            {
+                ...(input.payment_intent_id
+                    ? { payment_intent: input.payment_intent_id }
+                    : { charge: input.transaction_id }),
+                amount: input.amount,
+                metadata: {
+                    ...input.metadata,
+                    idempotency_key: input.idempotency_key,
+                },
+            },
+            { idempotencyKey: input.idempotency_key }
+        )
+        return { id: refund.id }
+    }
+
+    /*
+     ** **
+     ** ** ** Find Refund - Find a refund of payment by the key it
+     ** ** ** was made with
+     ** **
+     */
+    findRefund = async (input: Omit<RefundInput, 'amount' | 'metadata'>) => {
+        const refunds = this.api().refunds.list({
+            ...(input.payment_intent_id
+                ? { payment_intent: input.payment_intent_id }
+                : { charge: input.transaction_id }),
+            limit: 100,
+        })
+        for await (const refund of refunds) {
+            if (
+                refund.metadata?.idempotency_key === input.idempotency_key &&
+                refund.status !== 'failed' &&
+                refund.status !== 'canceled'
+            ) {
+                return { id: refund.id }
+            }
+        }
+        return null
+    }
+}
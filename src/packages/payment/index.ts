@@ -0,0 +1,81 @@
+import stripe from 'stripe'
+
+//Error Handling
+import AppError from '../../error handling/AppError'
+
+//Providers
+import CashOnDeliveryProvider from './CashOnDeliveryProvider'
+import FakeProvider from './FakeProvider'
+import StripeProvider from './StripeProvider'
+
+//Types
+import {
+    PaymentEvent,
+    PaymentProvider,
+    PaymentProviderName,
+} from './PaymentProvider'
+
+/*
+ ** **
+ ** ** ** PROVIDERS, created once so fake provider keeps its state
+ ** **
+ */
+export const stripeProvider = new StripeProvider()
+export const cashOnDeliveryProvider = new CashOnDeliveryProvider()
+export const fakeProvider = new FakeProvider()
+
+/**
+ ** ==========================================================
+ ** getPaymentProvider - Get provider of the payment method,
+ ** card payments go through the provider set in env config
+ ** ==========================================================
+ */
+export const getPaymentProvider = (
+    payment_method: 'card' | 'cash_on_delivery'
+): PaymentProvider => {
+    if (payment_method === 'cash_on_delivery') return cashOnDeliveryProvider
+    return process.env.PAYMENT_PROVIDER === 'fake'
+        ? fakeProvider
+        : stripeProvider
+}
+
+/**
+ ** ==========================================================
+ ** getPaymentProviderByName - Get provider with the name given
+ ** ==========================================================
+ */
+export const getPaymentProviderByName = (
+    name: PaymentProviderName
+): PaymentProvider => {
+    return {
+        stripe: stripeProvider,
+        cash_on_delivery: cashOnDeliveryProvider,
+        fake: fakeProvider,
+    }[name]
+}
+
+/**
+ ** ==========================================================
+ ** toPaymentEvent - Get payment event of a payload recorded in
+ ** the ledger, raw stripe events recorded before events were
+ ** normalized are normalized now, throws if it's neither
+ ** ==========================================================
+ */
+export const toPaymentEvent = (payload: object): PaymentEvent => {
+    //1) A payload which is normalized already
+    const event = payload as Partial<PaymentEvent> & { object?: string }
+    if (event.provider && event.type && event.id) return event as PaymentEvent
+
+    //2) A raw stripe event, recorded before events were normalized
+    if (event.object === 'event' && event.type && event.id) {
+        return stripeProvider.normalizeEvent(payload as stripe.Event)
+    }
+
+    //3) Throw err, if payload is of no known shape
+    throw new AppError(
+        'Payload of this webhook event is neither a payment event nor a stripe event, so it cannot be processed.',
+        400
+    )
+}
+
+export * from './PaymentProvider'
@@ -0,0 +1,407 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession, HydratedDocument } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Deal, { IDeal } from '../models/Deal'
+import Order from '../models/Order'
+import Product, { IProduct, IProductMethods } from '../models/Product'
+import { SelectedVariants } from '../utils/selectedVariants'
+
+/**
+ ** ==========================================================
+ ** Type [DealSummary] - Deal a price comes from
+ ** ==========================================================
+ */
+export type DealSummary = {
+    _id: ObjectId
+    title: string
+    expires_in: Date
+}
+
+/**
+ ** ==========================================================
+ ** Type [ProductPrice] - Effective price of a product
+ ** ==========================================================
+ */
+export type ProductPrice = {
+    price: number
+    selling_price: number
+    deal_price?: number
+    deal?: DealSummary
+}
+
+/**
+ ** ==========================================================
+ ** Type [PriceSegment] - Units of a line sold at the same price,
+ ** units over the deal cap of customer are sold at normal price
+ ** ==========================================================
+ */
+export type PriceSegment = {
+    quantity: number
+    unit_price: number
+    deal?: DealSummary
+}
+
+/**
+ ** ==========================================================
+ ** Type [PricingLine] - A line of cart or order to be priced
+ ** ==========================================================
+ */
+export type PricingLine = {
+    product: ObjectId | string | HydratedDocument<IProduct, IProductMethods>
+    selected_variants: SelectedVariants
+    quantity: number
+}
+
+/**
+ ** ==========================================================
+ ** roundPrice - Round price to cents
+ ** ==========================================================
+ */
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+/**
+ ** ==========================================================
+ ** getActiveDeals - Get deals of products provided, active at
+ ** the time given, flash sales whose allocation ran out are not
+ ** active anymore
+ ** ==========================================================
+ */
+export const getActiveDeals = async (
+    product_ids: Array<ObjectId | string>,
+    at: Date = new Date(),
+    session?: ClientSession
+) => {
+    return Deal.find({
+        products: { $in: product_ids },
+        starts_from: { $lte: at },
+        expires_in: { $gt: at },
+        'discount.value': { $gt: 0 },
+        $or: [
+            { allocated_quantity: { $exists: false } },
+            { allocated_quantity: null },
+            { $expr: { $lt: ['$units_sold', '$allocated_quantity'] } },
+        ],
+    }).session(session || null)
+}
+
+/**
+ ** ==========================================================
+ ** calcDealPrice - Calc price of a deal on the selling price
+ ** ==========================================================
+ */
+export const calcDealPrice = (deal: IDeal, selling_price: number) => {
+    const discount =
+        deal.discount.type === 'percentage'
+            ? (selling_price * deal.discount.value) / 100
+            : deal.discount.value
+    return roundPrice(Math.max(selling_price - discount, 0))
+}
+
+/**
+ ** ==========================================================
+ ** resolveProductPrice - Resolve effective price of a product
+ ** with the best of the active deals provided
+ ** ==========================================================
+ */
+export const resolveProductPrice = (
+    product: HydratedDocument<IProduct, IProductMethods>,
+    selected_variants: SelectedVariants | undefined,
+    deals: Array<HydratedDocument<IDeal>>
+): ProductPrice => {
+    //1) Get normal prices of product
+    const { price, selling_price } = product.getPrices(selected_variants)
+
+    //2) Find the deal with lowest price, which is lower than selling price
+    let best: ProductPrice = { price, selling_price }
+    deals
+        .filter((deal) => deal.products.some((id) => id.equals(product._id)))
+        .forEach((deal) => {
+            const deal_price = calcDealPrice(deal, selling_price)
+            if (deal_price < (best.deal_price ?? selling_price)) {
+                best = {
+                    price,
+                    selling_price,
+                    deal_price,
+                    deal: {
+                        _id: deal._id,
+                        title: deal.title,
+                        expires_in: deal.expires_in,
+                    },
+                }
+            }
+        })
+
+    //3) Return effective price
+    return best
+}
+
+/**
+ ** ==========================================================
+ ** getProductPrice - Get effective price of a product now
+ ** ==========================================================
+ */
+export const getProductPrice = async (
+    product: HydratedDocument<IProduct, IProductMethods>,
+    selected_variants?: SelectedVariants
+) => {
+    const deals = await getActiveDeals([product._id])
+    return resolveProductPrice(product, selected_variants, deals)
+}
+
+/**
+ ** ==========================================================
+ ** getDealUnitsBought - Get units a customer has bought of each
+ ** deal provided, of orders which are not canceled
+ ** ==========================================================
+ */
+const getDealUnitsBought = async (
+    deal_ids: Array<ObjectId>,
+    user_id: ObjectId | string,
+    session?: ClientSession
+) => {
+    //1) If no deals, return
+    if (deal_ids.length <= 0) return new Map<string, number>()
+
+    //2) Sum units of order lines bought at deal price
+    const results: Array<{ _id: ObjectId; quantity: number }> =
+        await Order.aggregate([
+            {
+                $match: {
+                    customer: new ObjectId(user_id.toString()),
+                    delivery_status: { $ne: 'canceled' },
+                    'products.deal._id': { $in: deal_ids },
+                },
+            },
+            { $unwind: '$products' },
+            { $match: { 'products.deal._id': { $in: deal_ids } } },
+            {
+                $group: {
+                    _id: '$products.deal._id',
+                    quantity: { $sum: '$products.quantity' },
+                },
+            },
+        ]).session(session || null)
+
+    //3) Return units bought by deal id
+    return new Map(
+        results.map((result) => [result._id.toString(), result.quantity])
+    )
+}
+
+/**
+ ** ==========================================================
+ ** priceLines - Price lines of a cart or order at the time
+ ** given, units over the deal cap of customer get normal price,
+ ** returns prices in the same order as lines
+ ** ==========================================================
+ */
+export const priceLines = async (
+    lines: Array<PricingLine>,
+    options: {
+        user_id?: ObjectId | string
+        at?: Date
+        session?: ClientSession
+    } = {}
+) => {
+    //1) Get ids of products of lines
+    const ids = lines.map((line) =>
+        line.product instanceof Product
+            ? line.product._id.toString()
+            : line.product.toString()
+    )
+
+    //2) Find products and their active deals
+    const DocsProduct = await Product.find({ _id: { $in: ids } }).session(
+        options.session || null
+    )
+    const DocsDeal = await getActiveDeals(ids, options.at, options.session)
+
+    //3) Get units already bought of capped deals by customer
+    const unitsBought = options.user_id
+        ? await getDealUnitsBought(
+              DocsDeal.filter((deal) => deal.max_quantity_per_customer).map(
+                  (deal) => deal._id
+              ),
+              options.user_id,
+              options.session
+          )
+        : new Map<string, number>()
+
+    //4) Units of flash sales sold, including the ones of lines priced so far
+    const unitsSold = new Map<string, number>()
+
+    //5) Price each line
+    return lines.map((line, ind) => {
+        //=> Find product of line
+        const DocProduct = DocsProduct.find(
+            (prod) => prod._id.toString() === ids[ind]
+        )
+
+        //=> If product doesn't exist, throw err
+        if (!DocProduct) {
+            throw new AppError(
+                `No product exist with the id [${ids[ind]}] to be priced.`,
+                404
+            )
+        }
+
+        //=> Resolve effective price of product
+        const productPrice = resolveProductPrice(
+            DocProduct,
+            line.selected_variants,
+            DocsDeal
+        )
+        const { deal, deal_price, selling_price } = productPrice
+
+        //=> If no deal, all units are sold at selling price
+        if (!deal || deal_price === undefined) {
+            return {
+                product_id: DocProduct._id,
+                ...productPrice,
+                segments: [
+                    { quantity: line.quantity, unit_price: selling_price },
+                ] as Array<PriceSegment>,
+            }
+        }
+
+        //=> Units left at deal price for customer, and left of allocation of flash sale
+        const DocDeal = DocsDeal.find((curr) => curr._id.equals(deal._id))
+        const cap = DocDeal?.max_quantity_per_customer
+        const used = unitsBought.get(deal._id.toString()) || 0
+        const allocated = DocDeal?.allocated_quantity
+        const sold =
+            unitsSold.get(deal._id.toString()) ?? DocDeal?.units_sold ?? 0
+        const dealQuantity = Math.min(
+            cap ? Math.max(cap - used, 0) : line.quantity,
+            allocated ? Math.max(allocated - sold, 0) : line.quantity,
+            line.quantity
+        )
+        unitsBought.set(deal._id.toString(), used + dealQuantity)
+        unitsSold.set(deal._id.toString(), sold + dealQuantity)
+
+        //=> Split line into units at deal price and the rest at selling price
+        const segments: Array<PriceSegment> = [
+            { quantity: dealQuantity, unit_price: deal_price, deal },
+            {
+                quantity: line.quantity - dealQuantity,
+                unit_price: selling_price,
+            },
+        ].filter((segment) => segment.quantity > 0)
+
+        //=> Return priced line
+        return { product_id: DocProduct._id, ...productPrice, segments }
+    })
+}
+
+/**
+ ** ==========================================================
+ ** assertFlashSaleLimit - Throw when a customer would hold more
+ ** units of a product on flash sale than the sale allows them
+ ** ==========================================================
+ */
+export const assertFlashSaleLimit = async (
+    product_id: ObjectId,
+    cart_lines: Array<{ product: ObjectId; quantity: number }>,
+    user_id: ObjectId | string | undefined,
+    session?: ClientSession
+) => {
+    //1) Find flash sale of product having a per customer limit
+    const DocDeal = (
+        await getActiveDeals([product_id], new Date(), session)
+    ).find((deal) => deal.allocated_quantity && deal.max_quantity_per_customer)
+
+    //2) If no flash sale, return
+    if (!DocDeal || !DocDeal.max_quantity_per_customer) return
+
+    //3) Units of products of sale in cart, and already bought by customer if known
+    const unitsInCart = cart_lines
+        .filter((line) =>
+            DocDeal.products.some((id) => id.equals(line.product))
+        )
+        .reduce((prev, line) => prev + line.quantity, 0)
+    const unitsBought = user_id
+        ? (await getDealUnitsBought([DocDeal._id], user_id, session)).get(
+              DocDeal._id.toString()
+          ) || 0
+        : 0
+
+    //4) If limit exceeded, throw err
+    if (unitsInCart + unitsBought > DocDeal.max_quantity_per_customer) {
+        throw new AppError(
+            `You can buy at most ${DocDeal.max_quantity_per_customer} units during the flash sale [${DocDeal.title}].`,
+            400
+        )
+    }
+}
+
+/**
+ ** ==========================================================
+ ** claimDealUnits - Count units of order lines sold at deal
+ ** price, when enforced throws when allocation of a flash sale
+ ** ran out, paid lines are counted at the price they were paid
+ ** ==========================================================
+ */
+export const claimDealUnits = async (
+    lines: Array<{ deal?: { _id: ObjectId; title: string }; quantity: number }>,
+    options: { enforce: boolean; session?: ClientSession }
+) => {
+    for (const line of lines) {
+        //=> Skip, if line is not sold at deal price
+        if (!line.deal) continue
+
+        //=> Count units, when enforced only if they don't exceed allocation of flash sale
+        const DocDeal = await Deal.findOneAndUpdate(
+            options.enforce
+                ? {
+                      _id: line.deal._id,
+                      $or: [
+                          { allocated_quantity: { $exists: false } },
+                          { allocated_quantity: null },
+                          {
+                              $expr: {
+                                  $lte: [
+                                      { $add: ['$units_sold', line.quantity] },
+                                      '$allocated_quantity',
+                                  ],
+                              },
+                          },
+                      ],
+                  }
+                : { _id: line.deal._id },
+            { $inc: { units_sold: line.quantity } },
+            { session: options.session }
+        )
+
+        //=> If allocation ran out in the meantime, throw err
+        if (!DocDeal) {
+            throw new AppError(
+                `The flash sale [${line.deal.title}] has sold out, please review your cart and try again.`,
+                409
+            )
+        }
+    }
+}
+
+/**
+ ** ==========================================================
+ ** releaseDealUnits - Give back units of order lines sold at
+ ** deal price, so flash sales can sell them again
+ ** ==========================================================
+ */
+export const releaseDealUnits = async (
+    lines: Array<{ deal?: { _id: ObjectId }; quantity: number }>,
+    session?: ClientSession
+) => {
+    for (const line of lines) {
+        if (!line.deal) continue
+        await Deal.updateOne(
+            { _id: line.deal._id, units_sold: { $gte: line.quantity } },
+            { $inc: { units_sold: -line.quantity } },
+            { session }
+        )
+    }
+}
@@ -0,0 +1,419 @@
+import { ObjectId } from 'mongodb'
+import { FilterQuery, HydratedDocument } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Order, { IOrder } from '../models/Order'
+import Checkout, { ICheckout } from '../models/Checkout'
+
+//Packages
+import { withTransaction } from './transaction'
+import { restockOrderLines } from './inventory'
+import { getPaymentProvider, getPaymentProviderByName } from './payment'
+import { convertPrice, toMinorUnits } from './currency'
+import { changeOrderStatus, StatusChange } from './orderStatus'
+
+/**
+ ** ==========================================================
+ ** Type [RefundInput] - A refund to be made of an order, of
+ ** what's left to be refunded if no amount is provided
+ ** ==========================================================
+ */
+export type RefundInput = {
+    amount?: number
+    items?: Array<{ line: string | ObjectId; quantity: number }>
+    reason?: string
+    refunded_by?: ObjectId
+    source?: StatusChange['source']
+}
+
+/**
+ ** ==========================================================
+ ** getOrderPaymentProvider - Get provider which charged order,
+ ** orders placed before it was stored go through the provider
+ ** of their payment method
+ ** ==========================================================
+ */
+const getOrderPaymentProvider = (order: IOrder) => {
+    const { payment_method, payment_provider } = order.billing
+    return payment_method === 'card' && payment_provider
+        ? getPaymentProviderByName(payment_provider)
+        : getPaymentProvider(payment_method)
+}
+
+/**
+ ** ==========================================================
+ ** getChargedRefundAmount - Get amount of a refund in smallest
+ ** unit of currency charged, a refund of what's left gives back
+ ** all that is left of the amount charged
+ ** ==========================================================
+ */
+const getChargedRefundAmount = (
+    order: IOrder,
+    refunded: number,
+    amount: number
+) => {
+    //1) Get currency charged, base currency if order has none
+    const currency = order.currency?.code
+        ? order.currency
+        : { rate: 1, decimals: 2, charged_amount: order.billing.paid_amount }
+    const toCharged = (base: number) =>
+        toMinorUnits(convertPrice(base, currency), currency)
+
+    //2) If what's left is refunded, return what's left of amount charged
+    if (
+        Math.round((refunded + amount) * 100) >=
+        Math.round(order.billing.paid_amount * 100)
+    ) {
+        return (
+            toMinorUnits(currency.charged_amount, currency) -
+            toCharged(refunded)
+        )
+    }
+
+    //3) Return amount converted
+    return toCharged(amount)
+}
+
+/**
+ ** ==========================================================
+ ** getRefundedAmount - Get amount of an order refunded, or
+ ** being refunded
+ ** ==========================================================
+ */
+export const getRefundedAmount = (order: Pick<IOrder, 'refunds'>) =>
+    (order.refunds || [])
+        .filter((refund) => refund.status !== 'failed')
+        .reduce((prev, refund) => prev + Math.round(refund.amount * 100), 0) /
+    100
+
+/**
+ ** ==========================================================
+ ** completeRefund - Mark a pending refund of an order as
+ ** succeeded, and restock its items, within a transaction,
+ ** returns false if it was completed already
+ ** ==========================================================
+ */
+const completeRefund = async (
+    order_id: ObjectId,
+    refund_id: ObjectId,
+    provider_refund_id?: string
+) => {
+    return withTransaction(async (session) => {
+        //=> Mark refund as succeeded, only if it's still pending, so its items are never restocked twice
+        const DocOrder = await Order.findOneAndUpdate(
+            {
+                _id: order_id,
+                refunds: { $elemMatch: { _id: refund_id, status: 'pending' } },
+            },
+            {
+                $set: {
+                    'refunds.$.status': 'succeeded',
+                    'refunds.$.provider_refund_id': provider_refund_id,
+                },
+            },
+            { new: true, session }
+        )
+        if (!DocOrder) return false
+
+        //=> Give back stock of refunded items, unless it was given back when order was canceled or refunded
+        if (
+            DocOrder.delivery_status === 'canceled' ||
+            DocOrder.delivery_status === 'refunded'
+        )
+            return true
+        const refund = DocOrder.refunds?.find((curr) =>
+            curr._id?.equals(refund_id)
+        )
+        await restockOrderLines(
+            (refund?.items || []).flatMap((item) => {
+                const line = DocOrder.products.find((prod) =>
+                    prod._id?.equals(item.line)
+                )
+                return line
+                    ? [
+                          {
+                              product: line.product,
+                              selected_variants: line.selected_variants,
+                              quantity: item.quantity,
+                          },
+                      ]
+                    : []
+            }),
+            session
+        )
+        return true
+    })
+}
+
+/**
+ ** ==========================================================
+ ** refundOrderPayment - Refund an order fully or partially via
+ ** its payment provider, restock items refunded, and move order
+ ** to refunded once nothing is left to be refunded
+ ** ==========================================================
+ */
+export const refundOrderPayment = async (
+    id: string | ObjectId,
+    refund: RefundInput
+) => {
+    //1) Find order
+    const DocOrder = await Order.findById(id)
+
+    //2) If no doc found, throw err
+    if (!DocOrder) {
+        throw new AppError(
+            'No order found to be refunded with the id provided.',
+            404
+        )
+    }
+
+    //3) Only a paid order can be refunded
+    if (
+        DocOrder.delivery_status === 'refunded' ||
+        DocOrder.delivery_status === 'pending_payment'
+    ) {
+        throw new AppError(
+            `An order which is [${DocOrder.delivery_status}] can't be refunded.`,
+            400
+        )
+    }
+
+    //4) Get amount in cents, what's left to be refunded if none provided
+    const refunds = (DocOrder.refunds || []).filter(
+        (refund) => refund.status !== 'failed'
+    )
+    const refundedInCents = Math.round(getRefundedAmount(DocOrder) * 100)
+    const paidInCents = Math.round(DocOrder.billing.paid_amount * 100)
+    const amountInCents =
+        refund.amount === undefined
+            ? paidInCents - refundedInCents
+            : Math.round(Number(refund.amount) * 100)
+
+    //5) Amount must be a positive number
+    if (!Number.isFinite(amountInCents) || amountInCents <= 0) {
+        throw new AppError(
+            refund.amount === undefined
+                ? 'Nothing is left to be refunded of this order.'
+                : 'Please provide a valid "amount" to be refunded.',
+            400
+        )
+    }
+
+    //6) Amount must not exceed what's left to be refunded
+    if (refundedInCents + amountInCents > paidInCents) {
+        throw new AppError(
+            `Refund amount must not exceed ${
+                (paidInCents - refundedInCents) / 100
+            }, which is left to be refunded.`,
+            400
+        )
+    }
+
+    //7) Each item must be a line of order, not refunded more than bought
+    const items = refund.items || []
+    if (!Array.isArray(items)) {
+        throw new AppError(
+            'Refund items must be a list of order lines with "line" and "quantity" values.',
+            400
+        )
+    }
+    const refundItems = items.map((item) => {
+        //=> Find order line of item
+        const line = DocOrder.products.find(
+            (prod) => prod._id?.toString() === String(item.line)
+        )
+        if (!line || !line._id) {
+            throw new AppError(
+                `No line found in order with the id [${item.line}].`,
+                400
+            )
+        }
+
+        //=> A line must be listed only once
+        if (
+            items.filter((curr) => String(curr.line) === String(item.line))
+                .length > 1
+        ) {
+            throw new AppError(
+                `The line [${line.title}] must be listed only once.`,
+                400
+            )
+        }
+
+        //=> Quantity must not exceed what's left to be refunded
+        const quantity = Number(item.quantity)
+        const refundableQuantity =
+            line.quantity -
+            refunds
+                .flatMap((refund) => refund.items)
+                .filter((curr) => curr.line.equals(line._id as ObjectId))
+                .reduce((prev, curr) => prev + curr.quantity, 0)
+        if (
+            !Number.isInteger(quantity) ||
+            quantity <= 0 ||
+            quantity > refundableQuantity
+        ) {
+            throw new AppError(
+                `Please provide a valid quantity to be refunded of [${line.title}], at most ${refundableQuantity} can be refunded.`,
+                400
+            )
+        }
+
+        //=> Return item with order line
+        return { line, quantity }
+    })
+
+    //8) Card orders must have a payment to be refunded
+    const { payment_method, payment_intent_id, transaction_id } =
+        DocOrder.billing
+    if (payment_method === 'card' && !payment_intent_id && !transaction_id) {
+        throw new AppError(
+            'No payment found of this order to be refunded.',
+            400
+        )
+    }
+
+    //9) Add a pending refund, only if no refund was added meanwhile
+    const refundId = new ObjectId()
+    const DocOrderClaimed = await Order.findOneAndUpdate(
+        {
+            _id: DocOrder._id,
+            [`refunds.${DocOrder.refunds?.length || 0}`]: {
+                $exists: false,
+            },
+        },
+        {
+            $push: {
+                refunds: {
+                    _id: refundId,
+                    amount: amountInCents / 100,
+                    items: refundItems.map((item) => ({
+                        line: item.line._id,
+                        quantity: item.quantity,
+                    })),
+                    reason: refund.reason,
+                    payment_method,
+                    status: 'pending',
+                    refunded_by: refund.refunded_by,
+                    created_at: Date.now(),
+                },
+            },
+        },
+        { runValidators: true }
+    )
+
+    //10) If order was refunded meanwhile, throw err
+    if (!DocOrderClaimed) {
+        throw new AppError(
+            'This order was refunded meanwhile, please try again.',
+            409
+        )
+    }
+
+    //11) Refund payment via its provider in currency charged, cash on delivery is refunded by hand
+    let provider_refund_id: string | undefined
+    try {
+        const result = await getOrderPaymentProvider(DocOrder).refund({
+            payment_intent_id,
+            transaction_id,
+            amount: getChargedRefundAmount(
+                DocOrder,
+                refundedInCents / 100,
+                amountInCents / 100
+            ),
+            idempotency_key: refundId.toString(),
+            metadata: { order_id: DocOrder._id.toString() },
+        })
+        provider_refund_id = result.id
+    } catch (err) {
+        //=> Mark refund as failed, and throw err
+        await Order.updateOne(
+            { _id: DocOrder._id, 'refunds._id': refundId },
+            { $set: { 'refunds.$.status': 'failed' } }
+        )
+        throw new AppError(
+            `Failed to refund the payment: ${(err as Error).message}`,
+            502
+        )
+    }
+
+    //12) Mark refund as succeeded, and restock refunded items
+    await completeRefund(DocOrder._id, refundId, provider_refund_id)
+
+    //13) If order is refunded fully, move it to refunded
+    if (refundedInCents + amountInCents >= paidInCents) {
+        await changeOrderStatus({ _id: DocOrder._id }, 'refunded', {
+            source: refund.source || 'admin',
+            changed_by: refund.refunded_by,
+            note: refund.reason,
+            is_restocked: true,
+        })
+    }
+
+    //14) Return refund made
+    return { _id: refundId, amount: amountInCents / 100 }
+}
+
+/**
+ ** ==========================================================
+ ** refundCheckoutPayment - Refund in full what a checkout was
+ ** charged when its order can't be placed, and mark it refunded
+ ** ==========================================================
+ */
+export const refundCheckoutPayment = async (
+    checkout: HydratedDocument<ICheckout>,
+    payment: { payment_intent_id?: string; amount_charged?: number },
+    reason: string
+) => {
+    //1) Refund payment via its provider, keyed by session so it's never refunded twice
+    const amount_charged = payment.amount_charged ?? checkout.amount_total
+    const result = await getPaymentProviderByName(checkout.provider).refund({
+        payment_intent_id: payment.payment_intent_id,
+        amount: amount_charged,
+        idempotency_key: `checkout-${checkout.session_id}`,
+        metadata: { checkout_session_id: checkout.session_id },
+    })
+
+    //2) Mark checkout as refunded, only if it's still open
+    return Checkout.findOneAndUpdate(
+        { _id: checkout._id, status: 'open' },
+        {
+            $set: {
+                status: 'refunded',
+                amount_charged,
+                payment_intent_id: payment.payment_intent_id,
+                failure_reason: reason,
+                refund_id: result.id,
+            },
+        },
+        { new: true }
+    )
+}
+
+/**
+ ** ==========================================================
+ ** reconcilePendingRefunds - Complete refunds of the order
+ ** matching filter which were left pending, yet were made by
+ ** the provider, as their process must have crashed meanwhile
+ ** ==========================================================
+ */
+export const reconcilePendingRefunds = async (filter: FilterQuery<IOrder>) => {
+    //1) Find order, if not exist, return
+    const DocOrder = await Order.findOne(filter)
+    if (!DocOrder) return
+
+    //2) Complete each pending refund found with provider by its key
+    const { payment_intent_id, transaction_id } = DocOrder.billing
+    for (const refund of DocOrder.refunds || []) {
+        if (refund.status !== 'pending' || !refund._id) continue
+        const result = await getOrderPaymentProvider(DocOrder).findRefund({
+            payment_intent_id,
+            transaction_id,
+            idempotency_key: refund._id.toString(),
+        })
+        if (result) await completeRefund(DocOrder._id, refund._id, result.id)
+    }
+}
@@ -0,0 +1,34 @@
+/**
+ ** ==========================================================
+ ** scheduleJob - Run a job repeatedly after every interval,
+ ** a run is skipped when the previous one hasn't finished yet
+ ** ==========================================================
+ */
+export const scheduleJob = (
+    name: string,
+    intervalMs: number,
+    job: () => Promise<unknown>
+) => {
+    //1) Whether the job is running at the moment
+    let isRunning = false
+
+    //2) Run job after every interval
+    return setInterval(async () => {
+        //=> Skip, if previous run hasn't finished yet
+        if (isRunning) return
+
+        //=> Run job, and log error if failed
+        isRunning = true
+        try {
+            await job()
+        } catch (err) {
+            console.log(
+                `Scheduled Job Has Failed:\t\t[${name}]\n${
+                    (err as Error).message
+                }`
+            )
+        } finally {
+            isRunning = false
+        }
+    }, intervalMs)
+}
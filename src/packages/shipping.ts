@@ -0,0 +1,249 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession, HydratedDocument } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Product from '../models/Product'
+import ShippingZone, { IShippingZone } from '../models/ShippingZone'
+
+/**
+ ** ==========================================================
+ ** Type [ServiceLevel] - Service levels a zone can ship with
+ ** ==========================================================
+ */
+export type ServiceLevel = IShippingZone['methods'][number]['service_level']
+
+/**
+ ** ==========================================================
+ ** Type [ShippingOption] - A method available to ship a cart
+ ** ==========================================================
+ */
+export type ShippingOption = {
+    zone: ObjectId
+    service_level: ServiceLevel
+    name: string
+    billable_weight: number
+    cost: number
+    is_free: boolean
+    estimated_days?: {
+        min: number
+        max: number
+    }
+}
+
+/**
+ ** ==========================================================
+ ** Type [ShippingLine] - A line of cart or order to be shipped
+ ** ==========================================================
+ */
+export type ShippingLine = {
+    product: ObjectId
+    quantity: number
+}
+
+/**
+ ** ==========================================================
+ ** roundPrice - Round price to cents
+ ** ==========================================================
+ */
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+/**
+ ** ==========================================================
+ ** hasShippingZones - Whether any shipping zone is set up, until
+ ** one is, carts are shipped for free wherever they go
+ ** ==========================================================
+ */
+export const hasShippingZones = async (session?: ClientSession) =>
+    !!(await ShippingZone.exists({}).session(session || null))
+
+/**
+ ** ==========================================================
+ ** findShippingZone - Find zone shipping to the destination,
+ ** a zone listing the state wins over one covering the whole
+ ** country, then the fallback zone if any
+ ** ==========================================================
+ */
+export const findShippingZone = async (
+    destination: { country: string; state: string },
+    session?: ClientSession
+) => {
+    //1) Find zones covering the country, and the fallback one
+    const DocsZone = await ShippingZone.find({
+        $or: [
+            { 'regions.country': destination.country },
+            { is_fallback: true },
+        ],
+    }).session(session || null)
+
+    //2) Rank zones by how close their region is to destination
+    const rank = (zone: HydratedDocument<IShippingZone>) => {
+        const region = zone.regions.find(
+            (region) => region.country === destination.country
+        )
+        if (!region) return zone.is_fallback ? 1 : 0
+        if (!region.states || region.states.length <= 0) return 2
+        return region.states.includes(destination.state) ? 3 : 0
+    }
+
+    //3) Return zone of best rank, if any
+    return (
+        DocsZone.map((zone) => ({ zone, rank: rank(zone) }))
+            .filter(({ rank }) => rank > 0)
+            .sort((a, b) => b.rank - a.rank)[0]?.zone || null
+    )
+}
+
+/**
+ ** ==========================================================
+ ** calcBillableWeight - Calc weight charged for the lines, the
+ ** greater of their actual weight and their volumetric weight
+ ** ==========================================================
+ */
+export const calcBillableWeight = async (
+    lines: Array<ShippingLine>,
+    volumetric_divisor: number,
+    session?: ClientSession
+) => {
+    //1) Find shipping details of products
+    const DocsProduct = await Product.find({
+        _id: { $in: lines.map((line) => line.product) },
+    })
+        .select('shipping')
+        .session(session || null)
+
+    //2) Sum actual and volumetric weight of lines
+    let weight = 0
+    let volumetric_weight = 0
+    lines.forEach((line) => {
+        const DocProduct = DocsProduct.find((product) =>
+            product._id.equals(line.product)
+        )
+        if (!DocProduct) return
+
+        const { dimensions } = DocProduct.shipping
+        weight += DocProduct.shipping.weight * line.quantity
+        volumetric_weight +=
+            ((dimensions.width * dimensions.height * dimensions.length) /
+                volumetric_divisor) *
+            line.quantity
+    })
+
+    //3) Return the greater of both, rounded to grams
+    return Math.round(Math.max(weight, volumetric_weight) * 1000) / 1000
+}
+
+/**
+ ** ==========================================================
+ ** calcMethodCost - Calc cost of a method for the weight given,
+ ** returns null if the weight is beyond the rates of method
+ ** ==========================================================
+ */
+const calcMethodCost = (
+    method: IShippingZone['methods'][number],
+    billable_weight: number
+) => {
+    //1) Find first rate covering the weight
+    const rate = method.rates.find((rate) => billable_weight <= rate.max_weight)
+    if (rate) return rate.price
+
+    //2) Charge every extra kg over the last rate, if method allows it
+    const last = method.rates[method.rates.length - 1]
+    if (!last || method.price_per_extra_kg === undefined) return null
+
+    return roundPrice(
+        last.price +
+            Math.ceil(billable_weight - last.max_weight) *
+                method.price_per_extra_kg
+    )
+}
+
+/**
+ ** ==========================================================
+ ** getShippingOptions - Get methods available to ship the lines
+ ** to the destination, with their cost for the subtotal given
+ ** ==========================================================
+ */
+export const getShippingOptions = async (
+    lines: Array<ShippingLine>,
+    destination: { country: string; state: string },
+    subtotal: number,
+    session?: ClientSession
+): Promise<Array<ShippingOption>> => {
+    //1) If nothing to ship, return
+    if (lines.length <= 0) return []
+
+    //2) Find zone of destination, if none, destination isn't shipped to
+    const DocZone = await findShippingZone(destination, session)
+    if (!DocZone) return []
+
+    //3) Calc billable weight of lines
+    const billable_weight = await calcBillableWeight(
+        lines,
+        DocZone.volumetric_divisor || 5000,
+        session
+    )
+
+    //4) Calc cost of each method, skipping ones the weight is beyond
+    const options: Array<ShippingOption> = []
+    DocZone.methods.forEach((method) => {
+        const cost = calcMethodCost(method, billable_weight)
+        if (cost === null) return
+
+        const is_free =
+            method.free_shipping_threshold !== undefined &&
+            subtotal >= method.free_shipping_threshold
+
+        options.push({
+            zone: DocZone._id,
+            service_level: method.service_level,
+            name: method.name,
+            billable_weight,
+            cost: is_free ? 0 : cost,
+            is_free,
+            estimated_days: method.estimated_days,
+        })
+    })
+
+    //5) Return options, cheapest first
+    return options.sort((a, b) => a.cost - b.cost)
+}
+
+/**
+ ** ==========================================================
+ ** pickShippingOption - Pick option of the service level asked,
+ ** throws if destination can't be shipped with it
+ ** ==========================================================
+ */
+export const pickShippingOption = (
+    options: Array<ShippingOption>,
+    service_level: ServiceLevel = 'standard'
+) => {
+    //1) If no option at all, destination isn't shipped to
+    if (options.length <= 0) {
+        throw new AppError(
+            'Sorry, we do not ship your cart to this address yet.',
+            400
+        )
+    }
+
+    //2) Find option of service level
+    const option = options.find(
+        (option) => option.service_level === service_level
+    )
+
+    //3) If not found, throw err
+    if (!option) {
+        throw new AppError(
+            `The "${service_level}" shipping is not available for this address, please choose one of these: ${options
+                .map((option) => `"${option.service_level}"`)
+                .join(', ')}.`,
+            400
+        )
+    }
+
+    //4) Return option
+    return option
+}
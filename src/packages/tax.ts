@@ -0,0 +1,197 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession } from 'mongoose'
+
+//Models & Types
+import Category from '../models/Category'
+import Product from '../models/Product'
+import TaxRule, { ITaxRule } from '../models/TaxRule'
+
+/**
+ ** ==========================================================
+ ** Type [TaxLine] - An amount to be taxed, of a product or of
+ ** shipping
+ ** ==========================================================
+ */
+export type TaxLine = {
+    product?: ObjectId
+    is_shipping?: boolean
+    amount: number
+}
+
+/**
+ ** ==========================================================
+ ** Type [TaxBreakdown] - Tax of each rule applied
+ ** ==========================================================
+ */
+export type TaxBreakdown = Array<{
+    rule: ObjectId
+    name: string
+    rate: number
+    tax_class: string
+    price_mode: 'inclusive' | 'exclusive'
+    taxable_amount: number
+    amount: number
+}>
+
+/**
+ ** ==========================================================
+ ** Constants - Tax classes used when none is set
+ ** ==========================================================
+ */
+export const DEFAULT_TAX_CLASS = 'standard'
+export const SHIPPING_TAX_CLASS = 'shipping'
+
+/**
+ ** ==========================================================
+ ** roundPrice - Round price to cents
+ ** ==========================================================
+ */
+const roundPrice = (price: number) => Math.round(price * 100) / 100
+
+/**
+ ** ==========================================================
+ ** findTaxRules - Find rule of each tax class applied to the
+ ** destination, a rule of the state wins over the one of the
+ ** whole country
+ ** ==========================================================
+ */
+export const findTaxRules = async (
+    destination: { country: string; state: string },
+    session?: ClientSession
+) => {
+    //1) Find rules of country and state
+    const DocsTaxRule = await TaxRule.find({
+        country: destination.country,
+        state: { $in: [destination.state, null, ''] },
+    }).session(session || null)
+
+    //2) Keep one rule per tax class, preferring the state one
+    const rules = new Map<string, (typeof DocsTaxRule)[number]>()
+    DocsTaxRule.forEach((rule) => {
+        const tax_class = rule.tax_class || DEFAULT_TAX_CLASS
+        if (!rules.has(tax_class) || rule.state) rules.set(tax_class, rule)
+    })
+
+    //3) Return rules by tax class
+    return rules
+}
+
+/**
+ ** ==========================================================
+ ** getProductTaxClasses - Get tax class of each product, from
+ ** the first of its categories which has one
+ ** ==========================================================
+ */
+export const getProductTaxClasses = async (
+    product_ids: Array<ObjectId>,
+    session?: ClientSession
+) => {
+    //1) Find categories of products
+    const DocsProduct = await Product.find({ _id: { $in: product_ids } })
+        .select('categories')
+        .session(session || null)
+
+    //2) Find categories which have a tax class
+    const DocsCategory = await Category.find({
+        _id: {
+            $in: DocsProduct.flatMap((product) => product.categories || []),
+        },
+        tax_class: { $exists: true, $ne: '' },
+    })
+        .select('tax_class')
+        .session(session || null)
+
+    //3) Map each product to its tax class
+    const classes = new Map<string, string>()
+    DocsProduct.forEach((product) => {
+        const category = (product.categories || [])
+            .map((id) =>
+                DocsCategory.find((category) => category._id.equals(id))
+            )
+            .find((category) => category?.tax_class)
+        classes.set(
+            product._id.toString(),
+            category?.tax_class || DEFAULT_TAX_CLASS
+        )
+    })
+
+    //4) Return tax classes
+    return classes
+}
+
+/**
+ ** ==========================================================
+ ** calcTaxAmount - Calc tax of a rule on the amount given,
+ ** extracted from it when prices include tax
+ ** ==========================================================
+ */
+export const calcTaxAmount = (
+    rule: Pick<ITaxRule, 'rate' | 'price_mode'>,
+    amount: number
+) => {
+    if (rule.price_mode === 'inclusive')
+        return roundPrice(amount - amount / (1 + rule.rate / 100))
+    return roundPrice((amount * rule.rate) / 100)
+}
+
+/**
+ ** ==========================================================
+ ** calcTax - Calc tax of the lines shipped to the destination,
+ ** returns its breakdown per rule, its total, and the part of
+ ** it which is added on top of prices
+ ** ==========================================================
+ */
+export const calcTax = async (
+    lines: Array<TaxLine>,
+    destination: { country: string; state: string },
+    session?: ClientSession
+) => {
+    //1) Find rules of destination, if none, nothing is taxed
+    const rules = await findTaxRules(destination, session)
+    if (rules.size <= 0) return { breakdown: [], total: 0, exclusive: 0 }
+
+    //2) Get tax classes of products
+    const classes = await getProductTaxClasses(
+        lines.flatMap((line) => (line.product ? [line.product] : [])),
+        session
+    )
+
+    //3) Sum taxable amount of each rule
+    const taxable = new Map<string, number>()
+    lines.forEach((line) => {
+        const tax_class = line.is_shipping
+            ? SHIPPING_TAX_CLASS
+            : classes.get(line.product?.toString() || '') || DEFAULT_TAX_CLASS
+        if (!rules.has(tax_class) || line.amount <= 0) return
+        taxable.set(tax_class, (taxable.get(tax_class) || 0) + line.amount)
+    })
+
+    //4) Calc tax of each rule
+    const breakdown: TaxBreakdown = []
+    taxable.forEach((amount, tax_class) => {
+        const rule = rules.get(tax_class)
+        if (!rule) return
+        breakdown.push({
+            rule: rule._id,
+            name: rule.name,
+            rate: rule.rate,
+            tax_class,
+            price_mode: rule.price_mode || 'exclusive',
+            taxable_amount: roundPrice(amount),
+            amount: calcTaxAmount(rule, amount),
+        })
+    })
+
+    //5) Return breakdown with its totals
+    return {
+        breakdown,
+        total: roundPrice(
+            breakdown.reduce((prev, tax) => prev + tax.amount, 0)
+        ),
+        exclusive: roundPrice(
+            breakdown
+                .filter((tax) => tax.price_mode === 'exclusive')
+                .reduce((prev, tax) => prev + tax.amount, 0)
+        ),
+    }
+}
@@ -0,0 +1,113 @@
+import { ClientSession, startSession } from 'mongoose'
+import { MongoError } from 'mongodb'
+
+/*
+ ** **
+ ** ** ** MAX ATTEMPTS OF A TRANSACTION
+ ** **
+ */
+const MAX_ATTEMPTS = 3
+
+/*
+ ** **
+ ** ** ** FUNCS TO BE RUN ONCE THE TRANSACTION OF A SESSION COMMITS
+ ** **
+ */
+const commitCallbacks = new WeakMap<ClientSession, Array<() => void>>()
+
+/**
+ ** ==========================================================
+ ** hasErrorLabel - Whether an error has the label provided
+ ** ==========================================================
+ */
+const hasErrorLabel = (err: unknown, label: string) => {
+    return err instanceof MongoError && err.hasErrorLabel(label)
+}
+
+/**
+ ** ==========================================================
+ ** commitWithRetry - Commit transaction, retry when the commit
+ ** result is unknown
+ ** ==========================================================
+ */
+const commitWithRetry = async (session: ClientSession) => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await session.commitTransaction()
+            return
+        } catch (err) {
+            if (
+                attempt < MAX_ATTEMPTS &&
+                hasErrorLabel(err, 'UnknownTransactionCommitResult')
+            )
+                continue
+
+            throw err
+        }
+    }
+}
+
+/**
+ ** ==========================================================
+ ** afterCommit - Run the func provided once the transaction of
+ ** the session commits, right away if there's no transaction
+ ** ==========================================================
+ */
+export const afterCommit = (
+    session: ClientSession | undefined,
+    fn: () => void
+) => {
+    //1) If session isn't in a transaction, run func right away
+    const callbacks = session && commitCallbacks.get(session)
+    if (!session?.inTransaction() || !callbacks) return fn()
+
+    //2) Else run func once its transaction commits
+    callbacks.push(fn)
+}
+
+/**
+ ** ==========================================================
+ ** withTransaction - Run the func provided inside a multi
+ ** document transaction, retry it on transient errors
+ ** ==========================================================
+ */
+export const withTransaction = async <T>(
+    fn: (session: ClientSession) => Promise<T>
+) => {
+    //1) Start a session
+    const session = await startSession()
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            //2) Start a transaction, dropping funcs of an aborted attempt
+            session.startTransaction()
+            commitCallbacks.set(session, [])
+
+            try {
+                //3) Run func and commit its changes
+                const results = await fn(session)
+                await commitWithRetry(session)
+
+                //4) Run funcs waiting for the commit, and return results of the func
+                commitCallbacks.get(session)?.forEach((callback) => callback())
+                return results
+            } catch (err) {
+                //5) Abort transaction, so none of the changes is applied
+                if (session.inTransaction()) await session.abortTransaction()
+
+                //6) Retry on transient errors, else throw err
+                if (
+                    attempt < MAX_ATTEMPTS &&
+                    hasErrorLabel(err, 'TransientTransactionError')
+                )
+                    continue
+
+                throw err
+            }
+        }
+    } finally {
+        //7) End the session
+        commitCallbacks.delete(session)
+        await session.endSession()
+    }
+}
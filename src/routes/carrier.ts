@@ -0,0 +1,42 @@
+import express from 'express'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    createCarrier,
+    deleteCarrier,
+    getCarrier,
+    getManyCarrier,
+    updateCarrier,
+} from '../controllers/carrier'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated, isAuthorized('admin'))
+
+//[Retrieve] many carrier or [Create] a carrier
+Router.route('/').get(getManyCarrier).post(createCarrier)
+
+//[Retrieve] [Modify] [Remove] a carrier by its id
+Router.route('/:id').get(getCarrier).put(updateCarrier).delete(deleteCarrier)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
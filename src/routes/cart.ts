@@ -1,12 +1,25 @@
 import express from 'express'
-import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    identifyUser,
+    isAuthenticated,
+    isAuthorized,
+} from '../controllers/auth'
 import {
     addItemInCart,
+    applyCouponToCart,
+    clearCart,
     deleteCart,
     getCart,
+    getCartSummary,
     getManyCart,
+    moveSavedItemToCart,
+    removeCouponFromCart,
     removeItemFromCart,
-    setParamIdToAuthUserId,
+    removeSavedItem,
+    saveCartItemForLater,
+    setCartItemQuantity,
+    setCartShippingMethod,
+    setCartOwner,
 } from '../controllers/cart'
 
 /**
@@ -24,19 +37,56 @@ const Router = express.Router()
 
 /*
  ** **
- ** ** ** [Member-Access-Only]
+ ** ** ** [Guest-Or-Member-Access]
  ** **
  */
-Router.use(isAuthenticated)
+//Identify owner of cart, user if logged in, else guest
+const cartOwner = [identifyUser, setCartOwner]
 
-//[Retrive] user cart
-Router.route('/user').get(setParamIdToAuthUserId, getCart)
+//[Retrive] [Clear] user or guest cart
+Router.route('/user').get(cartOwner, getCart).delete(cartOwner, clearCart)
 
 //[Add-item] in cart
-Router.route('/add-item').post(isAuthenticated, addItemInCart)
+Router.route('/add-item').post(cartOwner, addItemInCart)
 
 //[Remove-item] from cart
-Router.route('/remove-item').post(isAuthenticated, removeItemFromCart)
+Router.route('/remove-item').post(cartOwner, removeItemFromCart)
+
+//[Set-quantity] of a line in cart
+Router.route('/user/items/:lineId').patch(cartOwner, setCartItemQuantity)
+
+//[Save-for-later] a line of cart
+Router.route('/user/items/:lineId/save-for-later').post(
+    cartOwner,
+    saveCartItemForLater
+)
+
+//[Remove] an item saved for later
+Router.route('/user/saved/:savedId').delete(cartOwner, removeSavedItem)
+
+//[Move-to-cart] an item saved for later
+Router.route('/user/saved/:savedId/move-to-cart').post(
+    cartOwner,
+    moveSavedItemToCart
+)
+
+/*
+ ** **
+ ** ** ** [Member-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated)
+
+//[Retrive] pricing summary of user cart
+Router.route('/user/summary').get(getCartSummary)
+
+//[Apply] [Remove] a coupon of user cart
+Router.route('/user/coupon')
+    .post(applyCouponToCart)
+    .delete(removeCouponFromCart)
+
+//[Choose] shipping method of user cart
+Router.route('/user/shipping-method').put(setCartShippingMethod)
 
 /*
  ** **
@@ -1,8 +1,11 @@
 import express from 'express'
-import { isAuthenticated } from '../controllers/auth'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
 import {
     checkoutSuccessWithoutPay,
     createCheckoutSession,
+    getManyWebhookEvent,
+    replayWebhookEvent,
+    simulateFakePayment,
 } from '../controllers/checkout'
 
 /**
@@ -24,6 +27,22 @@ Router.use(isAuthenticated)
 Router.route('/session').post(createCheckoutSession)
 Router.route('/success-no-pay').post(checkoutSuccessWithoutPay)
 
+//[Simulate] outcome of a fake checkout session
+Router.route('/fake-sessions/:id/simulate').post(simulateFakePayment)
+
+/**
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthorized('admin'))
+
+//[Retrieve] many webhook event
+Router.route('/webhook-events').get(getManyWebhookEvent)
+
+//[Replay] a failed webhook event
+Router.route('/webhook-events/:id/replay').post(replayWebhookEvent)
+
 /**
  ** ====================================
  ** EXPORT [ROUTER]
@@ -0,0 +1,42 @@
+import express from 'express'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    createCoupon,
+    deleteCoupon,
+    getCoupon,
+    getManyCoupon,
+    updateCoupon,
+} from '../controllers/coupon'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated, isAuthorized('admin'))
+
+//[Retrieve] many coupon or [Create] a coupon
+Router.route('/').get(getManyCoupon).post(createCoupon)
+
+//[Retrieve] [Modify] [Remove] a coupon by its id
+Router.route('/:id').get(getCoupon).put(updateCoupon).delete(deleteCoupon)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
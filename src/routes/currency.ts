@@ -0,0 +1,45 @@
+import express from 'express'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    createCurrency,
+    deleteCurrency,
+    getCurrency,
+    getManyCurrency,
+    updateCurrency,
+} from '../controllers/currency'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+//[Retrieve] many currency
+Router.route('/').get(getManyCurrency)
+
+/*
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated, isAuthorized('admin'))
+
+//[Create] a currency
+Router.route('/').post(createCurrency)
+
+//[Retrieve] [Modify] [Remove] a currency by its id
+Router.route('/:id').get(getCurrency).put(updateCurrency).delete(deleteCurrency)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
@@ -1,7 +1,10 @@
 import express from 'express'
 import { isAuthenticated, isAuthorized } from '../controllers/auth'
 import {
+    cancelMyOrder,
     createOrder,
+    createShipment,
+    deliverShipment,
     deleteOrder,
     getManyOrder,
     getOrder,
@@ -9,8 +12,10 @@ import {
     getTotalOrdersCount,
     getTotalRefunds,
     getTotalSales,
+    refundOrder,
     setUserId,
     updateOrder,
+    updateOrderStatus,
 } from '../controllers/order'
 
 /**
@@ -36,6 +41,9 @@ Router.use(isAuthenticated)
 //[Retrieve] many order of current user
 Router.route('/my-orders').get(setUserId, getManyOrder)
 
+//[Cancel] a order of current user
+Router.route('/my-orders/:id/cancel').post(cancelMyOrder)
+
 /**
  ** **
  ** ** ** [Admin-Access-Only]
@@ -61,6 +69,18 @@ Router.route('/').get(getManyOrder).post(createOrder)
 //[Retrieve] [Modify] [Remove] a order by its id
 Router.route('/:id').get(getOrder).put(updateOrder).delete(deleteOrder)
 
+//[Modify] status of a order
+Router.route('/:id/status').patch(updateOrderStatus)
+
+//[Ship] lines of a order
+Router.route('/:id/shipments').post(createShipment)
+
+//[Deliver] a shipment of a order
+Router.route('/:id/shipments/:shipmentId/deliver').patch(deliverShipment)
+
+//[Refund] a order fully or partially
+Router.route('/:id/refund').post(refundOrder)
+
 /**
  ** ====================================
  ** EXPORT [ROUTER]
@@ -0,0 +1,40 @@
+import express from 'express'
+import { isAuthenticated } from '../controllers/auth'
+import {
+    createMyProductAlert,
+    deleteMyProductAlert,
+    getMyProductAlerts,
+} from '../controllers/productAlert'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Members-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated)
+
+//[Retrieve] my product alerts or [Subscribe] to a product alert
+Router.route('/my-alerts').get(getMyProductAlerts).post(createMyProductAlert)
+
+//[Unsubscribe] from a product alert by its id
+Router.route('/my-alerts/:id').delete(deleteMyProductAlert)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
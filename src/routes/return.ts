@@ -0,0 +1,78 @@
+import express from 'express'
+import multerUpload from '../packages/multer'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import { imageToMedia } from '../controllers/media'
+import { setUserId } from '../controllers/order'
+import {
+    approveReturn,
+    createMyReturn,
+    getManyReturn,
+    getReturn,
+    refundReturn,
+    rejectReturn,
+} from '../controllers/return'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/**
+ ** **
+ ** ** ** [Members-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated)
+
+//[Retrieve] many return or [Create] a return of current user
+Router.route('/my-returns')
+    .get(setUserId, getManyReturn)
+    .post(
+        multerUpload.fields([
+            {
+                name: 'images',
+            },
+        ]),
+        imageToMedia('images'),
+        createMyReturn
+    )
+
+//[Retrieve] a return of current user by its id
+Router.route('/my-returns/:id').get(setUserId, getReturn)
+
+/**
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthorized('admin'))
+
+//[Retrieve] many return
+Router.route('/').get(getManyReturn)
+
+//[Retrieve] a return by its id
+Router.route('/:id').get(getReturn)
+
+//[Approve] a return requested
+Router.route('/:id/approve').patch(approveReturn)
+
+//[Reject] a return requested
+Router.route('/:id/reject').patch(rejectReturn)
+
+//[Refund] an approved return
+Router.route('/:id/refund').post(refundReturn)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
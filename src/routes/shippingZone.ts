@@ -0,0 +1,45 @@
+import express from 'express'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    createShippingZone,
+    deleteShippingZone,
+    getManyShippingZone,
+    getShippingZone,
+    updateShippingZone,
+} from '../controllers/shippingZone'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated, isAuthorized('admin'))
+
+//[Retrieve] many shipping zone or [Create] a shipping zone
+Router.route('/').get(getManyShippingZone).post(createShippingZone)
+
+//[Retrieve] [Modify] [Remove] a shipping zone by its id
+Router.route('/:id')
+    .get(getShippingZone)
+    .put(updateShippingZone)
+    .delete(deleteShippingZone)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
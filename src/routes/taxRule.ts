@@ -0,0 +1,42 @@
+import express from 'express'
+import { isAuthenticated, isAuthorized } from '../controllers/auth'
+import {
+    createTaxRule,
+    deleteTaxRule,
+    getManyTaxRule,
+    getTaxRule,
+    updateTaxRule,
+} from '../controllers/taxRule'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Admin-Access-Only]
+ ** **
+ */
+Router.use(isAuthenticated, isAuthorized('admin'))
+
+//[Retrieve] many tax rule or [Create] a tax rule
+Router.route('/').get(getManyTaxRule).post(createTaxRule)
+
+//[Retrieve] [Modify] [Remove] a tax rule by its id
+Router.route('/:id').get(getTaxRule).put(updateTaxRule).delete(deleteTaxRule)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
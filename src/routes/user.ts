@@ -13,7 +13,12 @@ import {
     setUserId,
     updateUser,
 } from '../controllers/user'
+import {
+    getMostWishlistedProducts,
+    getSharedWishlist,
+} from '../controllers/wishlist'
 import multerUpload from '../packages/multer'
+import RouterWishlist from './wishlist'
 
 /**
  ** ====================================
@@ -28,6 +33,14 @@ const Router = express.Router({ mergeParams: true })
  ** ====================================
  */
 
+/*
+ ** **
+ ** ** ** [Public-Access]
+ ** **
+ */
+//[Retrieve] a shared wishlist by its share slug
+Router.route('/wishlists/shared/:slug').get(getSharedWishlist)
+
 /*
  ** **
  ** ** ** [Members-Access-Only]
@@ -35,6 +48,9 @@ const Router = express.Router({ mergeParams: true })
  */
 Router.use(isAuthenticated)
 
+//[Manage] my wishlists
+Router.use('/me/wishlists', RouterWishlist)
+
 //[Update] [Delete] user browsing history
 Router.route('/history').patch(addItemToMyHistory).delete(clearMyHistory)
 
@@ -63,6 +79,9 @@ Router.use(isAuthorized('admin'))
 
 Router.route('/search/:query').get(searchUser)
 
+//[Retrieve] most wishlisted products
+Router.route('/wishlists/most-wishlisted').get(getMostWishlistedProducts)
+
 //[Retrieve] total users count
 Router.route('/total-users-count').get(getTotalusersCount)
 
@@ -0,0 +1,59 @@
+import express from 'express'
+import {
+    addItemToMyWishlist,
+    createMyWishlist,
+    deleteMyWishlist,
+    getMyWishlist,
+    getMyWishlists,
+    moveWishlistItemToCart,
+    removeItemFromMyWishlist,
+    renameMyWishlist,
+    shareMyWishlist,
+    unshareMyWishlist,
+} from '../controllers/wishlist'
+
+/**
+ ** ====================================
+ ** Router
+ ** ====================================
+ */
+const Router = express.Router()
+
+/**
+ ** ====================================
+ ** Routes
+ ** ====================================
+ */
+
+/*
+ ** **
+ ** ** ** [Members-Access-Only]
+ ** **
+ */
+//[Retrieve] my wishlists or [Create] a wishlist
+Router.route('/').get(getMyWishlists).post(createMyWishlist)
+
+//[Retrieve] [Rename] [Remove] my wishlist by its id
+Router.route('/:id')
+    .get(getMyWishlist)
+    .patch(renameMyWishlist)
+    .delete(deleteMyWishlist)
+
+//[Share] my wishlist via a public link or [Unshare] it
+Router.route('/:id/share').post(shareMyWishlist).delete(unshareMyWishlist)
+
+//[Add] an item in my wishlist
+Router.route('/:id/items').post(addItemToMyWishlist)
+
+//[Remove] an item from my wishlist
+Router.route('/:id/items/:itemId').delete(removeItemFromMyWishlist)
+
+//[Move] an item from my wishlist into my cart
+Router.route('/:id/items/:itemId/move-to-cart').post(moveWishlistItemToCart)
+
+/**
+ ** ====================================
+ ** EXPORT [ROUTER]
+ ** ====================================
+ */
+export default Router
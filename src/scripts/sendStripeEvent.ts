@@ -0,0 +1,146 @@
+import fs from 'fs'
+import path from 'path'
+import http from 'http'
+import crypto from 'crypto'
+import dotenv from 'dotenv'
+import stripe from 'stripe'
+
+/*
+ ** **
+ ** ** ** Signs a sample stripe event with "STRIPE_WEBHOOK_SECRET" and sends it to webhook of the local
+ ** ** ** server, run it with: npm run send:stripe-event -- <sample> [key=value...], a value given
+ ** ** ** replaces the placeholder of the same key in sample, e.g. checkout_session_id=cs_test_...
+ ** **
+ */
+dotenv.config({ path: '.env' })
+
+/*
+ ** **
+ ** ** ** DIRECTORY OF SAMPLE EVENTS
+ ** **
+ */
+const SAMPLES_DIR = path.join(__dirname, 'stripeEvents')
+
+/**
+ ** ==========================================================
+ ** generateId - Generate a random id with the prefix provided
+ ** ==========================================================
+ */
+const generateId = (prefix: string) =>
+    `${prefix}_test${crypto.randomBytes(12).toString('hex')}`
+
+/**
+ ** ==========================================================
+ ** getPayload - Get sample event with its placeholders replaced
+ ** by values given, random ids if none given
+ ** ==========================================================
+ */
+const getPayload = (sample: string, values: { [key: string]: string }) => {
+    //1) Read sample, if not exist, throw err
+    const file = path.join(SAMPLES_DIR, `${sample}.json`)
+    if (!fs.existsSync(file)) {
+        throw new Error(
+            `No sample event found named [${sample}], samples are: ${fs
+                .readdirSync(SAMPLES_DIR)
+                .map((name) => name.replace('.json', ''))
+                .join(', ')}.`
+        )
+    }
+
+    //2) Values of placeholders, random ones unless given
+    const placeholders: { [key: string]: string | number } = {
+        event_id: generateId('evt'),
+        created: Math.floor(Date.now() / 1000),
+        checkout_session_id: generateId('cs'),
+        client_reference_id: '',
+        payment_intent_id: generateId('pi'),
+        transaction_id: generateId('ch'),
+        dispute_id: generateId('dp'),
+        amount_total: 0,
+        ...values,
+    }
+
+    //3) Replace placeholders, numbers are written as numbers
+    return fs
+        .readFileSync(file, 'utf-8')
+        .replace(/"\{\{(\w+)\}\}"/g, (placeholder, key: string) => {
+            const value = placeholders[key]
+            if (value === undefined) return placeholder
+            return key === 'created' || key === 'amount_total'
+                ? String(Number(value))
+                : JSON.stringify(String(value))
+        })
+}
+
+/**
+ ** ==========================================================
+ ** sendStripeEvent - Sign sample event and send it to webhook
+ ** ==========================================================
+ */
+const sendStripeEvent = async (sample: string, args: Array<string>) => {
+    //1) Webhook secret must be set, the same one server verifies events with
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+        throw new Error(
+            'Please setup "STRIPE_WEBHOOK_SECRET" in your .env config file.'
+        )
+    }
+
+    //2) Get payload of sample, with values given as key=value
+    const payload = getPayload(
+        sample,
+        Object.fromEntries(
+            args.map((arg) => [
+                arg.slice(0, arg.indexOf('=')),
+                arg.slice(arg.indexOf('=') + 1),
+            ])
+        )
+    )
+
+    //3) Sign payload, just like stripe does
+    const signature = new stripe(
+        process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder',
+        { apiVersion: '2022-11-15' }
+    ).webhooks.generateTestHeaderString({
+        payload,
+        secret: process.env.STRIPE_WEBHOOK_SECRET,
+    })
+
+    //4) Send event to webhook of local server
+    const result = await new Promise<{ status?: number; body: string }>(
+        (resolve, reject) => {
+            const req = http.request(
+                {
+                    host: 'localhost',
+                    port: process.env.PORT_NO || 3000,
+                    path: '/api/v1/checkout/success-stripe-webhook',
+                    method: 'POST',
+                    headers: {
+                        'content-type': 'application/json',
+                        'stripe-signature': signature,
+                    },
+                },
+                (res) => {
+                    let body = ''
+                    res.on('data', (chunk) => (body += chunk))
+                    res.on('end', () =>
+                        resolve({ status: res.statusCode, body })
+                    )
+                }
+            )
+            req.on('error', reject)
+            req.end(payload)
+        }
+    )
+
+    //5) Log event sent, and response of webhook
+    console.log(`Event Sent:\t\t[${JSON.parse(payload).id}]\n${payload}`)
+    console.log(`Webhook Responded:\t[${result.status}]\n${result.body}`)
+}
+
+const [sample, ...args] = process.argv.slice(2)
+sendStripeEvent(sample || '', args)
+    .then(() => process.exit(0))
+    .catch((err) => {
+        console.log(`Sending Stripe Event Was:\t[UnSuccessfull]\n${err}`)
+        process.exit(1)
+    })
@@ -0,0 +1,139 @@
+import dotenv from 'dotenv'
+import { connect, disconnect } from 'mongoose'
+import { ObjectId } from 'mongodb'
+
+//Models & Types
+import Cart from '../models/Cart'
+import Product from '../models/Product'
+
+//Controllers
+import {
+    holdCartReservations,
+    releaseExpiredReservations,
+} from '../controllers/cart'
+
+/*
+ ** **
+ ** ** ** Verifies the reservation sweeper against a local mongodb, which must run as a replica set
+ ** ** ** as reservations are released within transactions, run it with: npm run verify:reservations
+ ** **
+ */
+dotenv.config({ path: '.env' })
+
+/**
+ ** ==========================================================
+ ** check - Log result of a check, throw if it failed
+ ** ==========================================================
+ */
+const check = (name: string, isPassed: boolean) => {
+    console.log(`${name}:\t[${isPassed ? 'Passed' : 'Failed'}]`)
+    if (!isPassed) throw new Error(`Check failed: ${name}`)
+}
+
+/**
+ ** ==========================================================
+ ** verifyReservations - Release an expired reservation, and
+ ** hold it again, checking stock of product at each step
+ ** ==========================================================
+ */
+const verifyReservations = async () => {
+    //1) Connect to local mongodb
+    await connect(process.env.MONGODB_CONNECTION_LOCAL as string)
+
+    //2) Create a product, and a cart with an expired and an active reservation of it
+    const now = new Date()
+    const productId = new ObjectId()
+    const cartId = new ObjectId()
+    const expiredLineId = new ObjectId()
+    await Product.collection.insertOne({
+        _id: productId,
+        sku: `verify-reservations-${productId}`,
+        title: 'Verify Reservations',
+        stock: 5,
+        variant_combinations: [],
+    })
+    await Cart.collection.insertOne({
+        _id: cartId,
+        owner: new ObjectId(),
+        products: [
+            {
+                _id: expiredLineId,
+                product: productId,
+                selected_variants: [],
+                quantity: 2,
+                reservation: {
+                    status: 'active',
+                    expires_at: new Date(now.getTime() - 60 * 1000),
+                },
+            },
+            {
+                _id: new ObjectId(),
+                product: productId,
+                selected_variants: [],
+                quantity: 1,
+                reservation: {
+                    status: 'active',
+                    expires_at: new Date(now.getTime() + 60 * 60 * 1000),
+                },
+            },
+        ],
+    })
+
+    try {
+        const getState = async () => {
+            const DocProduct = await Product.findById(productId)
+            const DocCart = await Cart.findById(cartId)
+            return {
+                stock: DocProduct?.stock,
+                lines: DocCart?.products || [],
+            }
+        }
+
+        //3) Only the expired reservation is released, and its stock given back
+        check(
+            'Expired Line Released',
+            (await releaseExpiredReservations(now)) === 1
+        )
+        let state = await getState()
+        check('Stock Given Back', state.stock === 7)
+        check(
+            'Active Line Kept',
+            state.lines.filter((line) => line.reservation?.status === 'active')
+                .length === 1
+        )
+
+        //4) A released reservation is never released twice
+        check(
+            'Released Once Only',
+            (await releaseExpiredReservations(now)) === 0
+        )
+        check('Stock Unchanged', (await getState()).stock === 7)
+
+        //5) Holding reservations reserves the released line again, and extends all of them
+        const expires_at = new Date(now.getTime() + 2 * 60 * 60 * 1000)
+        await holdCartReservations(cartId, expires_at)
+        state = await getState()
+        check('Stock Reserved Again', state.stock === 5)
+        check(
+            'Reservations Held',
+            state.lines.every(
+                (line) =>
+                    line.reservation?.status === 'active' &&
+                    line.reservation.expires_at?.getTime() ===
+                        expires_at.getTime()
+            )
+        )
+    } finally {
+        //6) Clean up
+        await Cart.collection.deleteOne({ _id: cartId })
+        await Product.collection.deleteOne({ _id: productId })
+        await disconnect()
+    }
+}
+
+verifyReservations()
+    .then(() => process.exit(0))
+    .catch((err) => {
+        console.log(`Verifying Reservations Was:\t[UnSuccessfull]\n${err}`)
+        process.exit(1)
+    })
@@ -1,5 +1,6 @@
 import { IMedia } from '../models/Media'
 import { IUser } from '../models/User'
+import { ObjectId } from 'mongodb'
 
 /**
  ** ==========================================================
@@ -14,6 +15,7 @@ export declare global {
     namespace Express {
         interface Request {
             user: IUser
+            cart_owner: { owner?: ObjectId; guest?: string }
             media: {
                 name: string
                 value: IMedia | IMedia[]
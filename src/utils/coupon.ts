@@ -0,0 +1,177 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Coupon, { ICoupon } from '../models/Coupon'
+import Order from '../models/Order'
+import Product from '../models/Product'
+
+/**
+ ** ==========================================================
+ ** Type [CouponLine] - A line of cart or order to be discounted
+ ** ==========================================================
+ */
+export type CouponLine = {
+    product: ObjectId | string
+    selling_price: number
+    quantity: number
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which calcs discount of a coupon on the lines
+ ** provided, and throws when coupon can't be applied on them,
+ ** expiry and usage limits are only checked when enforced
+ ** ==========================================================
+ */
+export const calcCouponDiscount = async (
+    coupon: ICoupon & { _id: ObjectId },
+    lines: Array<CouponLine>,
+    user_id: ObjectId | string,
+    options: { enforce: boolean; session?: ClientSession }
+) => {
+    //1) Coupon must not be expired
+    if (
+        options.enforce &&
+        coupon.expires_in &&
+        coupon.expires_in.getTime() <= Date.now()
+    ) {
+        throw new AppError(`The coupon [${coupon.code}] has expired.`, 400)
+    }
+
+    //2) Coupon must not exceed its usage limit
+    if (
+        options.enforce &&
+        coupon.usage_limit &&
+        (coupon.times_used || 0) >= coupon.usage_limit
+    ) {
+        throw new AppError(
+            `The coupon [${coupon.code}] has reached its usage limit.`,
+            400
+        )
+    }
+
+    //3) Coupon must not exceed its usage limit of user
+    if (options.enforce && coupon.usage_limit_per_user) {
+        const timesUsedByUser = await Order.countDocuments({
+            customer: user_id,
+            'coupon._id': coupon._id,
+            delivery_status: { $nin: ['canceled', 'refunded'] },
+        }).session(options.session || null)
+
+        if (timesUsedByUser >= coupon.usage_limit_per_user) {
+            throw new AppError(
+                `You have already used the coupon [${coupon.code}] the maximum number of times.`,
+                400
+            )
+        }
+    }
+
+    //4) Subtotal must reach the minimum of coupon
+    const subtotal = lines.reduce(
+        (prev, line) => prev + line.selling_price * line.quantity,
+        0
+    )
+    if (subtotal < coupon.min_subtotal) {
+        throw new AppError(
+            `The coupon [${coupon.code}] requires a minimum subtotal of ${coupon.min_subtotal}.`,
+            400
+        )
+    }
+
+    //5) Get lines eligible for coupon, all of them if it's not restricted
+    let eligibleLines = lines
+    if (coupon.products?.length || coupon.categories?.length) {
+        //=> Get categories of products of lines
+        const products = await Product.find({
+            _id: { $in: lines.map((line) => line.product) },
+        })
+            .select({ categories: 1 })
+            .session(options.session || null)
+
+        //=> Keep lines of products or categories of coupon
+        eligibleLines = lines.filter((line) => {
+            const product = products.find((prod) =>
+                prod._id.equals(line.product)
+            )
+            return (
+                coupon.products?.some((id) => id.equals(line.product)) ||
+                product?.categories?.some((category) =>
+                    coupon.categories?.some((id) => id.equals(category))
+                )
+            )
+        })
+
+        //=> If no line is eligible, throw err
+        if (eligibleLines.length <= 0) {
+            throw new AppError(
+                `The coupon [${coupon.code}] doesn't apply to any product in your cart.`,
+                400
+            )
+        }
+    }
+
+    //6) Calc discount on eligible lines
+    const eligibleSubtotal = eligibleLines.reduce(
+        (prev, line) => prev + line.selling_price * line.quantity,
+        0
+    )
+    const discount =
+        coupon.type === 'percentage'
+            ? (eligibleSubtotal * coupon.value) / 100
+            : coupon.type === 'fixed'
+            ? Math.min(coupon.value, eligibleSubtotal)
+            : 0
+
+    //7) Return discount rounded to cents
+    return {
+        discount: Math.round(discount * 100) / 100,
+        free_shipping: coupon.type === 'free_shipping',
+    }
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which counts a use of coupon, when enforced
+ ** only if it hasn't reached its usage limit, null otherwise
+ ** ==========================================================
+ */
+export const redeemCoupon = async (
+    coupon_id: ObjectId,
+    options: { enforce: boolean; session?: ClientSession }
+) => {
+    return Coupon.findOneAndUpdate(
+        options.enforce
+            ? {
+                  _id: coupon_id,
+                  $or: [
+                      { usage_limit: { $exists: false } },
+                      { usage_limit: null },
+                      { $expr: { $lt: ['$times_used', '$usage_limit'] } },
+                  ],
+              }
+            : { _id: coupon_id },
+        { $inc: { times_used: 1 } },
+        { new: true, session: options.session }
+    )
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which gives back a use of coupon, once the
+ ** order it was used on is canceled or refunded
+ ** ==========================================================
+ */
+export const releaseCoupon = async (
+    coupon_id: ObjectId,
+    session?: ClientSession
+) => {
+    return Coupon.updateOne(
+        { _id: coupon_id, times_used: { $gt: 0 } },
+        { $inc: { times_used: -1 } },
+        { session }
+    )
+}
@@ -0,0 +1,200 @@
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import { IProduct } from '../models/Product'
+
+/**
+ ** ==========================================================
+ ** Type [SelectedVariants]
+ ** ==========================================================
+ */
+export type SelectedVariants = Array<{
+    name: string
+    term: string
+}>
+
+/**
+ ** ==========================================================
+ ** Utitlity func which validates selected variants against the
+ ** variants declared on product, and returns them normalized
+ ** ==========================================================
+ */
+export const validateSelectedVariants = (
+    product: Pick<IProduct, 'title' | 'variants'>,
+    selected_variants: unknown
+): SelectedVariants => {
+    //1) Parse selected variants, if sent as a json string
+    let selected = selected_variants || []
+    if (typeof selected_variants === 'string') {
+        try {
+            selected = JSON.parse(selected_variants)
+        } catch (err) {
+            throw new AppError(
+                'Selected variants must be valid JSON: a list of variations with "name" and "term" values.',
+                400
+            )
+        }
+    }
+
+    //2) Must be an array of name and term pairs
+    if (
+        !Array.isArray(selected) ||
+        selected.some(
+            (variant) =>
+                !variant ||
+                typeof variant.name !== 'string' ||
+                typeof variant.term !== 'string'
+        )
+    ) {
+        throw new AppError(
+            'Selected variants must be a list of variations with "name" and "term" values.',
+            400
+        )
+    }
+
+    //3) Get variants declared on product
+    const declaredVariants = (product.variants || []).filter(
+        (variant) => variant.name
+    )
+
+    //4) Each selected variant must exist on product with one of its terms
+    const normalized = selected.map<SelectedVariants[number]>((variant) => {
+        //=> Find declared variant with the same name
+        const declared = declaredVariants.find(
+            (declared) =>
+                declared.name.trim().toLowerCase() ===
+                variant.name.trim().toLowerCase()
+        )
+        if (!declared) {
+            throw new AppError(
+                `The variation [${variant.name}] doesn't exist on product [${product.title}].`,
+                400
+            )
+        }
+
+        //=> Find declared term with the same name
+        const term = declared.terms.find(
+            (term) =>
+                term.name.trim().toLowerCase() ===
+                variant.term.trim().toLowerCase()
+        )
+        if (!term) {
+            throw new AppError(
+                `The term [${variant.term}] doesn't exist in variation [${declared.name}] of product [${product.title}].`,
+                400
+            )
+        }
+
+        //=> Return with the names declared on product
+        return { name: declared.name, term: term.name }
+    })
+
+    //5) A variation must not be selected more than once
+    const duplicate = normalized.find(
+        (variant, ind) =>
+            normalized.findIndex((curr) => curr.name === variant.name) !== ind
+    )
+    if (duplicate) {
+        throw new AppError(
+            `The variation [${duplicate.name}] must be selected only once.`,
+            400
+        )
+    }
+
+    //6) Every variation declared on product must be selected
+    const missing = declaredVariants.find(
+        (declared) => !normalized.some((curr) => curr.name === declared.name)
+    )
+    if (missing) {
+        throw new AppError(
+            `Must select a term of the variation [${missing.name}] of product [${product.title}].`,
+            400
+        )
+    }
+
+    //7) Return sorted in the same order as declared on product
+    return declaredVariants.map(
+        (declared) =>
+            normalized.find(
+                (curr) => curr.name === declared.name
+            ) as SelectedVariants[number]
+    )
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which returns true when both the selections
+ ** have the same variations with the same terms
+ ** ==========================================================
+ */
+export const isSameVariantSelection = (
+    a: SelectedVariants = [],
+    b: SelectedVariants = []
+) => {
+    return (
+        a.length === b.length &&
+        a.every((variant) =>
+            b.some(
+                (curr) =>
+                    curr.name === variant.name && curr.term === variant.term
+            )
+        )
+    )
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which validates variant combinations of a
+ ** product against the variants declared on it, and returns
+ ** them with their terms normalized
+ ** ==========================================================
+ */
+export const validateVariantCombinations = (
+    product: Pick<IProduct, 'title' | 'variants'>,
+    combinations: unknown
+): NonNullable<IProduct['variant_combinations']> => {
+    //1) Must be an array of combinations
+    if (
+        !Array.isArray(combinations) ||
+        combinations.some((combination) => !combination)
+    ) {
+        throw new AppError(
+            'Variant combinations must be a list of combinations with "sku", "terms" and "stock" values.',
+            400
+        )
+    }
+
+    //2) Each combination must have a whole stock of zero or more, and terms selecting a term of each variation of product
+    const validated = combinations.map((combination) => {
+        const stock = Number(combination.stock)
+        if (!Number.isInteger(stock) || stock < 0) {
+            throw new AppError(
+                `Stock of the variant combination [${combination.sku}] must be a whole number of zero or more.`,
+                400
+            )
+        }
+
+        return {
+            ...combination,
+            terms: validateSelectedVariants(product, combination.terms),
+        }
+    })
+
+    //3) Terms must not be the same as the ones of another combination
+    const duplicate = validated.find(
+        (combination, ind) =>
+            validated.findIndex((curr) =>
+                isSameVariantSelection(curr.terms, combination.terms)
+            ) !== ind
+    )
+    if (duplicate) {
+        throw new AppError(
+            `The variant combination [${duplicate.sku}] has the same terms as another combination of product [${product.title}].`,
+            400
+        )
+    }
+
+    //4) Return combinations with their terms normalized
+    return validated
+}
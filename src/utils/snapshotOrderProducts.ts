@@ -0,0 +1,108 @@
+import { ObjectId } from 'mongodb'
+import { ClientSession } from 'mongoose'
+
+//Error Handling
+import AppError from '../error handling/AppError'
+
+//Models & Types
+import Product from '../models/Product'
+import Media from '../models/Media'
+import { IOrder } from '../models/Order'
+import { DealSummary } from '../packages/pricing'
+
+/**
+ ** ==========================================================
+ ** Type [OrderLineInput]
+ ** ==========================================================
+ */
+export type OrderLineInput = {
+    product: ObjectId | string
+    selected_variants: Array<{
+        name: string
+        term: string
+    }>
+    quantity: number
+    pricing?: {
+        selling_price: number
+        deal?: DealSummary
+    }
+}
+
+/**
+ ** ==========================================================
+ ** Utitlity func which snapshots the product details of the
+ ** lines provided, so an order never depends on live product
+ ** ==========================================================
+ */
+export default async (
+    lines: Array<OrderLineInput>,
+    session?: ClientSession
+) => {
+    //1) Get ids of all products in lines
+    const ids = lines.map((line) =>
+        line.product instanceof Product
+            ? line.product._id.toString()
+            : line.product.toString()
+    )
+
+    //2) Find all products with their image
+    const DocsProduct = await Product.find({ _id: { $in: ids } })
+        .session(session || null)
+        .populate({
+            path: 'image variant_combinations.image',
+            model: 'Media',
+        })
+
+    //3) Create a snapshot of each line
+    return lines.map<IOrder['products'][number]>((line, ind) => {
+        //=> Find product of the line
+        const DocProduct = DocsProduct.find(
+            (prod) => prod._id.toString() === ids[ind]
+        )
+
+        //=> If product doesn't exist, throw err
+        if (!DocProduct) {
+            throw new AppError(
+                `No product exist with the id [${ids[ind]}] to be ordered.`,
+                404
+            )
+        }
+
+        //=> Find variant combination and prices of the selected variants
+        const combination = DocProduct.findVariantCombination(
+            line.selected_variants
+        )
+        const { price, selling_price } = DocProduct.getPrices(
+            line.selected_variants
+        )
+
+        //=> Prefer image of the combination over image of the product
+        const image =
+            combination?.image instanceof Media
+                ? combination.image
+                : DocProduct.image
+
+        //=> Price of line resolved by pricing, else normal selling price
+        const deal = line.pricing?.deal
+
+        //=> Return snapshot
+        return {
+            product: DocProduct._id,
+            title: DocProduct.title,
+            sku: combination?.sku || DocProduct.sku,
+            image_url: image instanceof Media ? image.url : undefined,
+            price,
+            selling_price: line.pricing?.selling_price ?? selling_price,
+            selected_variants: line.selected_variants || [],
+            variant_labels: (line.selected_variants || []).map(
+                ({ name, term }) => `${name}: ${term}`
+            ),
+            deal: deal && {
+                _id: deal._id,
+                title: deal.title,
+                original_selling_price: selling_price,
+            },
+            quantity: line.quantity,
+        }
+    })
+}